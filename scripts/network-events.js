@@ -0,0 +1,121 @@
+/* global webrtcperf, log, PeerConnections */
+
+/** The inbound bitrate ratio over the pre-event level considered as recovered. */
+const NETWORK_RECOVERY_BITRATE_RATIO = 0.9
+
+/** The inbound bitrate samples (bps), collected every second. */
+const inboundBitrateSamples = []
+let inboundBytes = 0
+let inboundBytesTimestamp = 0
+
+/** The current network event state. */
+let networkEvent = null
+
+/** The last network event recovery times (s). */
+let networkRecovery = null
+
+window.collectNetworkRecoveryStats = () => {
+  return networkRecovery
+}
+
+const connectedPeerConnections = () => {
+  let count = 0
+  for (const pc of PeerConnections.values()) {
+    if (pc.connectionState === 'connected') {
+      count++
+    }
+  }
+  return count
+}
+
+const inboundBitrate = () => {
+  if (!inboundBitrateSamples.length) return 0
+  return inboundBitrateSamples.reduce((sum, v) => sum + v, 0) / inboundBitrateSamples.length
+}
+
+/**
+ * Called when a network event starts, it saves the pre-event connected
+ * PeerConnections count and inbound bitrate.
+ */
+webrtcperf.networkEventStart = () => {
+  networkEvent = {
+    connected: connectedPeerConnections(),
+    bitrate: inboundBitrate(),
+    endTime: 0,
+    timeout: 0,
+  }
+  log(`networkEventStart connected=${networkEvent.connected} bitrate=${Math.round(networkEvent.bitrate / 1000)}Kbps`)
+}
+
+/**
+ * Called when a network event ends, it starts measuring the recovery time.
+ * @param {number} timeout The maximum recovery time (s).
+ */
+webrtcperf.networkEventEnd = (timeout = 60) => {
+  if (!networkEvent) return
+  networkEvent.endTime = Date.now()
+  networkEvent.timeout = timeout
+  checkNetworkRecovery()
+}
+
+const checkNetworkRecovery = () => {
+  if (!networkEvent?.endTime) return
+  const elapsed = (Date.now() - networkEvent.endTime) / 1000
+  if (networkEvent.connectedTime === undefined && connectedPeerConnections() >= networkEvent.connected) {
+    networkEvent.connectedTime = elapsed
+  }
+  const lastBitrate = inboundBitrateSamples[inboundBitrateSamples.length - 1] || 0
+  if (
+    networkEvent.bitrateTime === undefined &&
+    elapsed > 0 &&
+    lastBitrate >= networkEvent.bitrate * NETWORK_RECOVERY_BITRATE_RATIO
+  ) {
+    networkEvent.bitrateTime = elapsed
+  }
+  if (elapsed >= networkEvent.timeout) {
+    log(`networkEvent recovery timeout after ${networkEvent.timeout}s`)
+    networkEvent.connectedTime ??= elapsed
+    networkEvent.bitrateTime ??= elapsed
+  }
+  if (networkEvent.connectedTime !== undefined && networkEvent.bitrateTime !== undefined) {
+    networkRecovery = {
+      connectedTime: networkEvent.connectedTime,
+      bitrateTime: networkEvent.bitrateTime,
+    }
+    log(
+      `networkEvent recovered connectedTime=${networkRecovery.connectedTime}s bitrateTime=${networkRecovery.bitrateTime}s`,
+    )
+    networkEvent = null
+  }
+}
+
+const sampleInboundBitrate = async () => {
+  let bytes = 0
+  for (const pc of PeerConnections.values()) {
+    try {
+      const stats = await pc.getStats()
+      stats.forEach(s => {
+        if (s.type === 'inbound-rtp') {
+          bytes += s.bytesReceived || 0
+        }
+      })
+    } catch (err) {
+      log(`sampleInboundBitrate error: ${err.message}`)
+    }
+  }
+  const now = Date.now()
+  if (inboundBytesTimestamp) {
+    const bitrate = Math.max(0, (8 * (bytes - inboundBytes)) / ((now - inboundBytesTimestamp) / 1000))
+    inboundBitrateSamples.push(bitrate)
+    if (inboundBitrateSamples.length > 5) {
+      inboundBitrateSamples.shift()
+    }
+  }
+  inboundBytes = bytes
+  inboundBytesTimestamp = now
+  checkNetworkRecovery()
+}
+
+if (window.NETWORK_EVENTS) {
+  setInterval(sampleInboundBitrate, 1000)
+}
@@ -525,5 +525,6 @@ window.collectPeerConnectionStats = async (raw = false, verbose = false) => {
     peerConnectionsDisconnected: webrtcperf.peerConnectionsDisconnected,
     peerConnectionsFailed: webrtcperf.peerConnectionsFailed,
     peerConnectionsClosed: webrtcperf.peerConnectionsClosed,
+    iceRestarts: webrtcperf.iceRestarts || 0,
   }
 }
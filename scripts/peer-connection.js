@@ -9,6 +9,7 @@ webrtcperf.peerConnectionsConnected = 0
 webrtcperf.peerConnectionsDisconnected = 0
 webrtcperf.peerConnectionsFailed = 0
 webrtcperf.peerConnectionsClosed = 0
+webrtcperf.iceRestarts = 0
 
 webrtcperf.Timer = class {
   constructor() {
@@ -175,13 +176,26 @@ window.RTCPeerConnection = function (conf, options) {
     return offer
   }
 
+  let iceUfrag = null
+  const checkIceRestart = () => {
+    const match = pc.localDescription?.sdp?.match(/a=ice-ufrag:(\S+)/)
+    if (!match) return
+    if (iceUfrag && iceUfrag !== match[1]) {
+      debug(`ICE restart`)
+      webrtcperf.iceRestarts++
+    }
+    iceUfrag = match[1]
+  }
+
   const setLocalDescriptionNative = pc.setLocalDescription.bind(pc)
-  pc.setLocalDescription = description => {
+  pc.setLocalDescription = async description => {
     debug(`setLocalDescription`, description)
     if (window.overrideSetLocalDescription) {
       description = window.overrideSetLocalDescription(description)
     }
-    return setLocalDescriptionNative(description)
+    const ret = await setLocalDescriptionNative(description)
+    checkIceRestart()
+    return ret
   }
 
   const setRemoteDescriptionNative = pc.setRemoteDescription.bind(pc)
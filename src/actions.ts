@@ -0,0 +1,213 @@
+import json5 from 'json5'
+import { Page } from 'puppeteer-core'
+
+import { logger, sleep } from './utils'
+
+const log = logger('webrtcperf:actions')
+
+/** A page action step type. */
+export type PageActionType =
+  'wait-for-selector' | 'click' | 'type' | 'select' | 'evaluate' | 'sleep' | 'reload' | 'assert-text'
+
+const PAGE_ACTION_TYPES: PageActionType[] = [
+  'wait-for-selector',
+  'click',
+  'type',
+  'select',
+  'evaluate',
+  'sleep',
+  'reload',
+  'assert-text',
+]
+
+/** A page action step, executed after the page is loaded. */
+export interface PageAction {
+  /** The step type. */
+  type: PageActionType
+  /**
+   * The step name; if set, the step duration and failure are reported with
+   * the `<name>ActionDuration` and `<name>ActionFailed` metrics.
+   */
+  name?: string
+  /** The element selector (`wait-for-selector`, `click`, `type`, `select`, `assert-text`). */
+  selector?: string
+  /**
+   * The text to type (`type`) or to find in the element (`assert-text`). The
+   * `$s` (session index), `$t` (tab index) and `$i` (tab absolute index)
+   * variables are replaced.
+   */
+  text?: string
+  /** The option values to select (`select`). */
+  value?: string | string[]
+  /** The JavaScript expression to evaluate in the page (`evaluate`). */
+  expression?: string
+  /** The sleep duration in seconds (`sleep`). */
+  duration?: number
+  /** The keystrokes delay in milliseconds (`type`, default: 20). */
+  delay?: number
+  /** The step timeout in seconds (default: 30). */
+  timeout?: number
+  /** The number of retries when the step fails (default: 0). */
+  retries?: number
+  /** The delay between the retries in seconds (default: 1). */
+  retryDelay?: number
+  /** If true, the next steps are executed even if this step fails. */
+  optional?: boolean
+}
+
+/** A page action step result. */
+export interface PageActionResult {
+  /** The step name. */
+  name?: string
+  /** The step type. */
+  type: PageActionType
+  /** The step duration (ms), including the retries. */
+  duration: number
+  /** If the step failed. */
+  failed: boolean
+}
+
+/**
+ * Parses the `pageActions` config option.
+ * @param pageActions A JSON5 string with the list of page action steps.
+ */
+export function parsePageActions(pageActions: string): PageAction[] {
+  if (!pageActions?.trim()) {
+    return []
+  }
+  const values = json5.parse(pageActions)
+  if (!Array.isArray(values)) {
+    throw new Error(`Invalid page actions: it should be a list of steps`)
+  }
+  values.forEach((action: PageAction, i) => {
+    const { type, name, selector, expression, duration, timeout, retries, retryDelay } = action
+    if (!PAGE_ACTION_TYPES.includes(type)) {
+      throw new Error(`Invalid page action ${i} type: ${type}`)
+    }
+    if (name !== undefined && !/^\w+$/.test(name)) {
+      throw new Error(`Invalid page action ${i} name: ${name}`)
+    }
+    if (['wait-for-selector', 'click', 'type', 'select'].includes(type) && !selector) {
+      throw new Error(`Invalid page action ${i}: selector not set`)
+    }
+    if (['type', 'assert-text'].includes(type) && typeof action.text !== 'string') {
+      throw new Error(`Invalid page action ${i}: text not set`)
+    }
+    if (type === 'select' && action.value === undefined) {
+      throw new Error(`Invalid page action ${i}: value not set`)
+    }
+    if (type === 'evaluate' && !expression) {
+      throw new Error(`Invalid page action ${i}: expression not set`)
+    }
+    if (type === 'sleep' && !(duration !== undefined && duration >= 0)) {
+      throw new Error(`Invalid page action ${i} duration: ${duration}`)
+    }
+    if (timeout !== undefined && !(timeout > 0)) {
+      throw new Error(`Invalid page action ${i} timeout: ${timeout}`)
+    }
+    if (retries !== undefined && !(Number.isInteger(retries) && retries >= 0)) {
+      throw new Error(`Invalid page action ${i} retries: ${retries}`)
+    }
+    if (retryDelay !== undefined && !(retryDelay >= 0)) {
+      throw new Error(`Invalid page action ${i} retryDelay: ${retryDelay}`)
+    }
+  })
+  return values
+}
+
+/**
+ * Runs a single page action step attempt.
+ * @param page The page.
+ * @param action The page action step.
+ * @param text The step text with the variables replaced.
+ */
+async function runPageAction(page: Page, action: PageAction, text: string): Promise<void> {
+  const { type, selector, value, expression, duration, delay } = action
+  const timeout = (action.timeout || 30) * 1000
+  switch (type) {
+    case 'wait-for-selector':
+      await page.waitForSelector(selector as string, { timeout })
+      break
+    case 'click':
+      await page.waitForSelector(selector as string, { visible: true, timeout })
+      await page.click(selector as string)
+      break
+    case 'type':
+      await page.waitForSelector(selector as string, { visible: true, timeout })
+      await page.type(selector as string, text, { delay: delay ?? 20 })
+      break
+    case 'select':
+      await page.waitForSelector(selector as string, { timeout })
+      await page.select(selector as string, ...(Array.isArray(value) ? value : [value as string]))
+      break
+    case 'evaluate': {
+      let timer: NodeJS.Timeout | undefined
+      try {
+        await Promise.race([
+          page.evaluate(expression as string),
+          new Promise((_resolve, reject) => {
+            timer = setTimeout(() => reject(new Error(`evaluate timeout after ${timeout}ms`)), timeout)
+          }),
+        ])
+      } finally {
+        clearTimeout(timer)
+      }
+      break
+    }
+    case 'sleep':
+      await sleep((duration || 0) * 1000)
+      break
+    case 'reload':
+      await page.reload({ waitUntil: 'domcontentloaded', timeout })
+      break
+    case 'assert-text':
+      await page.waitForFunction(
+        (selector: string, text: string) => document.querySelector(selector)?.textContent?.includes(text),
+        { timeout },
+        selector || 'body',
+        text,
+      )
+      break
+  }
+}
+
+/**
+ * Runs the page action steps in order, retrying the failed steps. The
+ * execution stops at the first failed step, unless it is `optional`.
+ * @param page The page.
+ * @param actions The page action steps.
+ * @param variables The values of the `$s`, `$t` and `$i` text variables.
+ * @param onResult Called with the result of each executed step.
+ */
+export async function runPageActions(
+  page: Page,
+  actions: PageAction[],
+  variables: { s: number; t: number; i: number },
+  onResult: (result: PageActionResult) => void,
+): Promise<void> {
+  for (const [i, action] of actions.entries()) {
+    const { type, name, retries = 0, retryDelay = 1, optional } = action
+    const text = (action.text || '').replace(/\$([sti])/g, (_, v: 's' | 't' | 'i') => String(variables[v]))
+    const label = `${name || i} (${type})`
+    const start = Date.now()
+    let failed = true
+    for (let attempt = 0; attempt <= retries && !page.isClosed(); attempt++) {
+      if (attempt > 0) {
+        await sleep(retryDelay * 1000)
+      }
+      try {
+        await runPageAction(page, action, text)
+        failed = false
+        break
+      } catch (err) {
+        log.warn(`page ${variables.i + 1} action ${label} attempt ${attempt + 1} failed: ${(err as Error).message}`)
+      }
+    }
+    const duration = Date.now() - start
+    log.debug(`page ${variables.i + 1} action ${label} ${failed ? 'failed' : 'done'} in ${duration}ms`)
+    onResult({ name, type, duration, failed })
+    if (failed && !optional) {
+      throw new Error(`action ${label} failed`)
+    }
+  }
+}
@@ -1,19 +1,24 @@
 import { getSessionThrottleIndex, startThrottle, stopThrottle } from '@vpalmisano/throttler'
 import { paramCase } from 'change-case'
-import fs from 'fs'
-import json5 from 'json5'
 import wrap from 'word-wrap'
 
-import { Config, getConfigDocs, loadConfig } from './config'
+import { parsePageActions } from './actions'
+import { compareRuns } from './compare'
+import { Config, getConfigDocs, getConfigSources, loadConfig } from './config'
+import { parseDeviceProfile } from './devices'
 import { prepareFakeMedia } from './media'
+import { loadNetworkTraces, parseNetworkEmulation, parseNetworkEvents } from './network'
+import { ParticipantRole, getRoleSessionParams, parseRoles, selectRole } from './roles'
+import { Scenario, parseScenario } from './scenario'
 import { Server } from './server'
-import { Session } from './session'
+import { Session, getRestartDelay } from './session'
 import { Stats } from './stats'
+import { getStorageStatePool, saveStorageStates } from './storage'
 import {
   checkChromeExecutable,
+  getPackageVersion,
   logger,
   registerExitHandler,
-  resolvePackagePath,
   sleep,
   startRandomActivateAudio,
   stopRandomActivateAudio,
@@ -37,13 +42,24 @@ ${wrap(value.doc, { width: 72, indent: '        ' })}
     console.log(out)
     process.exit(0)
   } else if (process.argv.findIndex(a => a.localeCompare('--version') === 0) !== -1) {
-    const version = json5.parse(fs.readFileSync(resolvePackagePath('package.json')).toString()).version
-    console.log(version)
+    console.log(getPackageVersion())
     process.exit(0)
   }
 }
 
-export async function setupApplication(config: Config): Promise<{ stats: Stats; stop: () => Promise<void> }> {
+function printConfig(config: Config): void {
+  const sources = getConfigSources()
+  const width = Math.max(...Object.keys(config).map(name => name.length))
+  let out = `Config:\n`
+  Object.entries(config).forEach(([name, value]) => {
+    out += `  ${name.padEnd(width)}  ${JSON.stringify(value)}  [${sources[name]}]\n`
+  })
+  console.log(out)
+}
+
+export async function setupApplication(
+  config: Config,
+): Promise<{ stats: Stats; scenario?: Scenario; stop: () => Promise<void> }> {
   if (!config.startTimestamp) {
     config.startTimestamp = Date.now()
   }
@@ -52,6 +68,38 @@ export async function setupApplication(config: Config): Promise<{ stats: Stats;
   const stats = new Stats(config)
   await stats.start()
 
+  // Trace the pages when an alert rule starts failing.
+  if (config.chromeTraceAlertDuration > 0) {
+    const tracedRules = new Set<string>()
+    stats.on('alert', (key: string, ruleDesc: string) => {
+      const rule = `${key}.${ruleDesc}`
+      if (tracedRules.has(rule)) return
+      tracedRules.add(rule)
+      log.info(`Alert rule ${rule} failed, tracing the pages for ${config.chromeTraceAlertDuration}s`)
+      for (const session of stats.sessions.values()) {
+        if (session.chromeTraceEnabled) {
+          session.tracePages(config.chromeTraceAlertDuration)
+        }
+      }
+    })
+  }
+
+  // Record the pages screencast when an alert rule starts failing.
+  if (config.screencastAlertDuration > 0) {
+    const recordedRules = new Set<string>()
+    stats.on('alert', (key: string, ruleDesc: string) => {
+      const rule = `${key}.${ruleDesc}`
+      if (recordedRules.has(rule)) return
+      recordedRules.add(rule)
+      log.info(`Alert rule ${rule} failed, recording the pages for ${config.screencastAlertDuration}s`)
+      for (const session of stats.sessions.values()) {
+        if (session.screencastEnabled) {
+          session.screencastPages(config.screencastAlertDuration)
+        }
+      }
+    })
+  }
+
   // Control server.
   let server: Server
   if (config.serverPort) {
@@ -68,6 +116,23 @@ export async function setupApplication(config: Config): Promise<{ stats: Stats;
     }
   }
 
+  // Check the device profile and network emulation settings.
+  parseDeviceProfile(config.deviceProfile)
+  parseNetworkEmulation(config.networkEmulation)
+  loadNetworkTraces(config.networkTrace)
+  parseNetworkEvents(config.networkEvents)
+  parsePageActions(config.pageActions)
+
+  // Participant roles.
+  const roles = config.roles ? parseRoles(config.roles) : []
+  const rolesVideoPaths = new Map<string, { video: string; audio: string }>()
+  for (const role of roles) {
+    if (role.videoPath) {
+      rolesVideoPaths.set(role.name, await prepareFakeMedia({ ...config, videoPath: role.videoPath }))
+    }
+  }
+  const roleTabs = (role?: ParticipantRole): number => role?.tabsPerSession || config.tabsPerSession
+
   // Network throttle.
   if (config.throttleConfig) {
     await startThrottle(config.throttleConfig)
@@ -78,56 +143,172 @@ export async function setupApplication(config: Config): Promise<{ stats: Stats;
     await checkChromeExecutable()
   }
 
+  // Login identities storage state.
+  if (config.storageStateLoginScript) {
+    await saveStorageStates({
+      loginScript: config.storageStateLoginScript,
+      loginUrl: config.storageStateLoginUrl || config.url,
+      identities: config.storageStateIdentities,
+      statePath: config.storageStatePath,
+      chromiumPath: config.chromiumPath,
+    })
+  }
+  if (config.storageStatePath) {
+    // Each identity requires its own browser context.
+    if (!['', 'tab', '1'].includes(config.contextIsolation || '')) {
+      throw new Error(`contextIsolation "${config.contextIsolation}" is not supported with storageStatePath`)
+    }
+    const identities = getStorageStatePool(config.storageStatePath).length
+    const pages = config.scenario
+      ? Math.max(...parseScenario(config.scenario).map(phase => phase.pages))
+      : roles.length
+        ? roles.reduce((sum, role) => sum + role.pages, 0)
+        : config.sessions * config.tabsPerSession
+    if (identities < pages) {
+      log.warn(`The storage state pool contains ${identities} identities for ${pages} pages, some will be reused`)
+    }
+  }
+
+  // The pending session restart timers, by session id.
+  const restartTimers = new Map<number, NodeJS.Timeout>()
+
   // Start session function.
-  const startLocalSession = async (id: number, spawnPeriod: number): Promise<void> => {
-    const throttleIndex = getSessionThrottleIndex(id)
-    const videoPath = videoPaths.length ? videoPaths[id % videoPaths.length] : undefined
+  const startLocalSession = async (
+    id: number,
+    spawnPeriod: number,
+    role?: ParticipantRole,
+    restarts = 0,
+    crashes = 0,
+  ): Promise<void> => {
+    const throttleIndex = role?.throttleIndex ?? getSessionThrottleIndex(id)
+    const videoPath =
+      (role && rolesVideoPaths.get(role.name)) || (videoPaths.length ? videoPaths[id % videoPaths.length] : undefined)
     const session = new Session({
       ...config,
+      ...(role ? getRoleSessionParams(role) : {}),
       videoPath,
       spawnPeriod,
       id,
       throttleIndex,
     })
+    session.restarts = restarts
+    session.crashes = crashes
     session.once('stop', () => {
-      console.warn(`Session ${id} stopped, reloading...`)
-      setTimeout(startLocalSession, spawnPeriod, id)
+      restartTimers.delete(id)
+      const delay = getRestartDelay(restarts, spawnPeriod, config)
+      if (delay < 0) {
+        log.error(`Session ${id} stopped, max restarts count reached (${restarts})`)
+        if (config.sessionRestartFailRun) {
+          stats.setRunFailed(`session ${id} reached the max restarts count`)
+        }
+        return
+      }
+      console.warn(`Session ${id} stopped, restarting in ${delay}ms...`)
+      restartTimers.set(
+        id,
+        setTimeout(() => {
+          restartTimers.delete(id)
+          startLocalSession(id, spawnPeriod, role, restarts + 1, session.crashes).catch(err =>
+            log.error(`Session ${id} restart error: ${(err as Error).stack}`),
+          )
+        }, delay),
+      )
     })
     stats.addSession(session)
     await session.start()
   }
 
-  // Start the local sessions.
-  if (config.sessions > 0) {
-    if (config.randomAudioPeriod) {
-      startRandomActivateAudio(
-        stats.sessions,
-        config.randomAudioPeriod,
-        config.randomAudioProbability,
-        config.randomAudioRange,
-      )
+  // Stop session function.
+  const stopLocalSession = async (id: number): Promise<void> => {
+    const restartTimer = restartTimers.get(id)
+    if (restartTimer) {
+      clearTimeout(restartTimer)
+      restartTimers.delete(id)
+    }
+    const session = stats.sessions.get(id)
+    if (!session) {
+      log.warn(`stopLocalSession session ${id} not found`)
+      return
     }
+    session.removeAllListeners()
+    stats.removeSession(id)
+    await session.stop()
+  }
+
+  // Start the local sessions.
+  if ((config.scenario || roles.length || config.sessions > 0) && config.randomAudioPeriod) {
+    startRandomActivateAudio(
+      stats.sessions,
+      config.randomAudioPeriod,
+      config.randomAudioProbability,
+      config.randomAudioRange,
+    )
+  }
+  let scenario: Scenario | undefined
+  if (config.scenario) {
+    const spawnPeriod = 1000 / config.spawnRate
+    const rolesStartedPages = new Map<string, number>()
+    scenario = new Scenario(
+      parseScenario(config.scenario),
+      config.tabsPerSession,
+      spawnPeriod,
+      async () => {
+        const role = selectRole(roles, rolesStartedPages)
+        const pages = roleTabs(role)
+        const id = stats.consumeSessionId(pages)
+        if (role) {
+          rolesStartedPages.set(role.name, (rolesStartedPages.get(role.name) || 0) + pages)
+        }
+        await startLocalSession(id, spawnPeriod, role)
+        return { id, pages }
+      },
+      async (id: number) => {
+        const role = roles.find(r => r.name === stats.sessions.get(id)?.role)
+        if (role) {
+          rolesStartedPages.set(role.name, (rolesStartedPages.get(role.name) || 0) - roleTabs(role))
+        }
+        await stopLocalSession(id)
+      },
+    )
+    scenario.on('phase', ({ name }) => stats.setPhase(name))
+    scenario.start().catch(err => log.error(`scenario error: ${(err as Error).stack}`))
+  } else if (roles.length || config.sessions > 0) {
     const spawnPeriod = 1000 / config.spawnRate
-    log.debug(`Starting ${config.sessions} sessions (spawnPeriod: ${spawnPeriod}ms)`)
+    // The role assigned to each session, in starting order.
+    const sessionsRoles: (ParticipantRole | undefined)[] = roles.length
+      ? roles.flatMap(role => new Array(Math.ceil(role.pages / roleTabs(role))).fill(role))
+      : new Array(config.sessions).fill(undefined)
+    log.debug(`Starting ${sessionsRoles.length} sessions (spawnPeriod: ${spawnPeriod}ms)`)
     const startTime = Date.now()
-    for (let i = 0; i < config.sessions; i += 1) {
-      const id = stats.consumeSessionId(config.tabsPerSession)
-      await startLocalSession(id, spawnPeriod)
+    let pages = 0
+    for (let i = 0; i < sessionsRoles.length; i += 1) {
+      const role = sessionsRoles[i]
+      const id = stats.consumeSessionId(roleTabs(role))
+      await startLocalSession(id, spawnPeriod, role)
+      pages += roleTabs(role)
       // If not the last session, sleep
-      if (i < config.sessions - 1) {
+      if (i < sessionsRoles.length - 1) {
         await sleep(spawnPeriod)
       }
     }
     const elapsed = Math.round((Date.now() - startTime) / 1000)
-    const spawnRate = (config.sessions * config.tabsPerSession) / elapsed
-    log.debug(`${config.sessions * config.tabsPerSession} pages started in ${elapsed}s (${spawnRate.toFixed(2)}/s)`)
+    const spawnRate = pages / elapsed
+    log.debug(`${pages} pages started in ${elapsed}s (${spawnRate.toFixed(2)}/s)`)
   }
 
   return {
     stats,
+    scenario,
     stop: async (): Promise<void> => {
       log.debug('Stopping')
 
+      if (scenario) {
+        scenario.stop()
+      }
+
+      restartTimers.forEach(timer => clearTimeout(timer))
+      restartTimers.clear()
+
       stopRandomActivateAudio()
 
       if (server) {
@@ -154,6 +335,11 @@ async function main(): Promise<void> {
 
   const config = loadConfig(process.argv[2])
 
+  if (config.printConfig) {
+    printConfig(config)
+    process.exit(0)
+  }
+
   // vmaf score.
   if (config.vmafPath) {
     await calculateVmafScore(config)
@@ -176,20 +362,43 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
-  const { stop: stopApplication } = await setupApplication(config)
+  // baseline comparison
+  if (config.compareBaseline) {
+    const regression = await compareRuns(config)
+    process.exit(regression ? 1 : 0)
+  }
+
+  const { stats, scenario, stop: stopApplication } = await setupApplication(config)
 
   const stop = async (): Promise<void> => {
     console.log('Exiting...')
 
     await stopApplication()
 
+    if (stats.failReason) {
+      process.exit(1)
+    }
+
+    // Alert rules verdict.
+    const alertRulesResults = stats.getAlertRulesResults()
+    if (alertRulesResults?.failed) {
+      const failed = alertRulesResults.rules.filter(r => r.failed).map(r => r.name)
+      log.warn(`Alert rules failed: ${failed.join(', ')}`)
+      if (config.alertRulesFailExitCode) {
+        process.exit(config.alertRulesFailExitCode)
+      }
+    }
+
     process.exit(0)
   }
   registerExitHandler(() => stop())
+  stats.once('fail', () => stop())
 
   // Stop after a configured duration.
   if (config.runDuration > 0) {
     setTimeout(stop, config.runDuration * 1000)
+  } else if (scenario) {
+    scenario.once('end', stop)
   }
 
   // Command line interface.
@@ -0,0 +1,323 @@
+import fs from 'fs'
+import json5 from 'json5'
+import path from 'path'
+
+import { escapeHtml, logger, parseCsv, toPrecision } from './utils'
+
+const log = logger('webrtcperf:compare')
+
+interface CompareConfig {
+  compareBaseline: string
+  compareCurrent: string
+  compareTolerances: string
+  compareOutputPath: string
+}
+
+/** The values compared for each metric. */
+const COMPARE_KEYS = ['mean', 'p95', 'max'] as const
+
+type CompareKey = (typeof COMPARE_KEYS)[number]
+
+/** The metric values of a test run. */
+export type RunMetrics = Record<string, Record<CompareKey, number>>
+
+/**
+ * The tolerance thresholds of a metric. The `mean`, `p95` and `max` values
+ * are the allowed percentage changes from the baseline values; `direction`
+ * sets which change is considered a regression (default: see
+ * {@link getDefaultCompareDirection}).
+ */
+export interface CompareTolerance {
+  mean?: number
+  p95?: number
+  max?: number
+  direction?: 'increase' | 'decrease' | 'any'
+}
+
+/** The comparison result of a metric value. */
+export interface MetricDelta {
+  name: string
+  key: CompareKey
+  baseline: number
+  current: number
+  delta: number
+  /** The percentage change from the baseline value. */
+  deltaPerc: number
+  /** The allowed percentage change, if configured. */
+  tolerance?: number
+  /** If the metric is missing in the current run. */
+  missing?: boolean
+  regression: boolean
+}
+
+/**
+ * Returns true if the file is a JSON run summary, false if it is a stats CSV
+ * file.
+ * @param fpath The file path.
+ */
+function isRunSummary(fpath: string): boolean {
+  return path.extname(fpath).toLowerCase() === '.json'
+}
+
+/**
+ * Loads the metrics aggregated over the whole run from a JSON run summary or
+ * from a stats CSV file (`statsPath` output). For the CSV files, where each
+ * row contains the values of a stats interval, the `mean` is calculated from
+ * the rows `sum` and `length` values, the `max` is the maximum value and the
+ * `p95` is an estimate: the average of the rows values weighted by the
+ * samples count. Since the estimate differs from the run summary `p95`, the
+ * two formats should not be compared with each other.
+ * @param fpath The file path.
+ */
+export function loadRunMetrics(fpath: string): RunMetrics {
+  const data = fs.readFileSync(fpath, 'utf-8')
+  const metrics: RunMetrics = {}
+  if (isRunSummary(fpath)) {
+    const { stats } = json5.parse(data)
+    if (!stats || typeof stats !== 'object') {
+      throw new Error(`Invalid run summary ${fpath}: missing stats`)
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Object.entries(stats).forEach(([name, value]: [string, any]) => {
+      const values = value?.all || value
+      if (!values?.length) return
+      metrics[name] = { mean: values.mean, p95: values.p95, max: values.max }
+    })
+    return metrics
+  }
+
+  const [columns, ...values] = parseCsv(data)
+  if (!columns) {
+    throw new Error(`Invalid stats file ${fpath}: missing header`)
+  }
+  const names = columns.filter(c => c.endsWith('_length')).map(c => c.slice(0, -'_length'.length))
+  for (const name of names) {
+    const lengthIndex = columns.indexOf(`${name}_length`)
+    const sumIndex = columns.indexOf(`${name}_sum`)
+    const p95Index = columns.indexOf(`${name}_95p`)
+    const maxIndex = columns.indexOf(`${name}_max`)
+    const samples = values.filter(v => parseFloat(v[lengthIndex]) > 0)
+    if (!samples.length) continue
+    const length = samples.reduce((sum, v) => sum + parseFloat(v[lengthIndex]), 0)
+    metrics[name] = {
+      mean: samples.reduce((sum, v) => sum + parseFloat(v[sumIndex]), 0) / length,
+      p95: samples.reduce((sum, v) => sum + parseFloat(v[p95Index]) * parseFloat(v[lengthIndex]), 0) / length,
+      max: Math.max(...samples.map(v => parseFloat(v[maxIndex]))),
+    }
+  }
+  return metrics
+}
+
+/**
+ * Parses the `compareTolerances` config option.
+ * @param tolerances A JSON5 string with the tolerances by metric name. The
+ * `default` key is used for the metrics without a specific entry.
+ */
+export function parseCompareTolerances(tolerances: string): Record<string, CompareTolerance> {
+  if (!tolerances) return {}
+  const values = json5.parse(tolerances)
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Invalid compare tolerances: it should be an object`)
+  }
+  Object.entries(values as Record<string, CompareTolerance>).forEach(([name, { direction }]) => {
+    if (direction !== undefined && !['increase', 'decrease', 'any'].includes(direction)) {
+      throw new Error(`Invalid compare tolerance "${name}" direction: ${direction}`)
+    }
+  })
+  return values
+}
+
+/** The metrics where a higher value is better (bitrates, frame rates and sizes). */
+const HIGHER_IS_BETTER_METRICS = /(Bitrates?|Fps|Frames|Width|Height)$/
+
+/**
+ * Returns the default regression direction of a metric: `decrease` for the
+ * metrics where a higher value is better (e.g. `videoRecvBitrates`,
+ * `videoRecvFps`), `increase` otherwise (e.g. CPU usage, latencies).
+ * @param name The metric name.
+ */
+export function getDefaultCompareDirection(name: string): 'increase' | 'decrease' {
+  return HIGHER_IS_BETTER_METRICS.test(name) ? 'decrease' : 'increase'
+}
+
+/**
+ * Compares the metrics of two runs. The baseline metrics missing in the
+ * current run are reported as regressions.
+ * @param baseline The baseline run metrics.
+ * @param current The current run metrics.
+ * @param tolerances The tolerances by metric name.
+ */
+export function compareRunMetrics(
+  baseline: RunMetrics,
+  current: RunMetrics,
+  tolerances: Record<string, CompareTolerance>,
+): MetricDelta[] {
+  const deltas: MetricDelta[] = []
+  for (const [name, baselineValues] of Object.entries(baseline)) {
+    const currentValues = current[name]
+    if (!currentValues) {
+      for (const key of COMPARE_KEYS) {
+        deltas.push({
+          name,
+          key,
+          baseline: baselineValues[key],
+          current: NaN,
+          delta: NaN,
+          deltaPerc: NaN,
+          missing: true,
+          regression: true,
+        })
+      }
+      continue
+    }
+    const tolerance = tolerances[name] || tolerances.default || {}
+    const direction = tolerance.direction || getDefaultCompareDirection(name)
+    for (const key of COMPARE_KEYS) {
+      const delta = currentValues[key] - baselineValues[key]
+      const deltaPerc = baselineValues[key]
+        ? (100 * delta) / Math.abs(baselineValues[key])
+        : delta && Math.sign(delta) * Infinity
+      const threshold = tolerance[key]
+      let regression = false
+      if (threshold !== undefined) {
+        if (direction === 'increase') {
+          regression = deltaPerc > threshold
+        } else if (direction === 'decrease') {
+          regression = deltaPerc < -threshold
+        } else {
+          regression = Math.abs(deltaPerc) > threshold
+        }
+      }
+      deltas.push({
+        name,
+        key,
+        baseline: baselineValues[key],
+        current: currentValues[key],
+        delta,
+        deltaPerc,
+        tolerance: threshold,
+        regression,
+      })
+    }
+  }
+  return deltas
+}
+
+function formatDeltaRow(d: MetricDelta): string[] {
+  return [
+    d.name,
+    d.key,
+    toPrecision(d.baseline, 3),
+    d.missing ? '-' : toPrecision(d.current, 3),
+    d.missing ? '-' : toPrecision(d.delta, 3),
+    isFinite(d.deltaPerc) ? `${toPrecision(d.deltaPerc, 2)}%` : '-',
+    d.tolerance !== undefined ? `${d.tolerance}%` : '-',
+    d.missing ? 'MISSING' : d.regression ? 'REGRESSION' : 'OK',
+  ]
+}
+
+const HEADERS = ['Metric', 'Value', 'Baseline', 'Current', 'Delta', 'Delta %', 'Tolerance', 'Result']
+
+/**
+ * Formats the comparison results as markdown table.
+ * @param deltas The comparison results.
+ */
+export function formatComparisonMarkdown(deltas: MetricDelta[]): string {
+  let out = `| ${HEADERS.join(' | ')} |\n|${HEADERS.map(() => ' --- ').join('|')}|\n`
+  for (const d of deltas) {
+    out += `| ${formatDeltaRow(d).join(' | ')} |\n`
+  }
+  return out
+}
+
+/**
+ * Formats the comparison results as HTML page.
+ * @param deltas The comparison results.
+ * @param baselinePath The baseline run file path.
+ * @param currentPath The current run file path.
+ */
+export function formatComparisonHtml(deltas: MetricDelta[], baselinePath: string, currentPath: string): string {
+  let out = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>webrtcperf comparison</title>
+<style>
+body { font-family: sans-serif; margin: 20px; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+.regression { background: #fdd; }
+</style>
+</head>
+<body>
+<h1>webrtcperf comparison</h1>
+<p>Baseline: ${escapeHtml(baselinePath)}<br>Current: ${escapeHtml(currentPath)}</p>
+<table>
+<tr>${HEADERS.map(h => `<th>${h}</th>`).join('')}</tr>
+`
+  for (const d of deltas) {
+    const cells = formatDeltaRow(d).map(v => `<td>${escapeHtml(v)}</td>`)
+    out += `<tr${d.regression ? ' class="regression"' : ''}>${cells.join('')}</tr>\n`
+  }
+  out += `</table>
+</body>
+</html>
+`
+  return out
+}
+
+/**
+ * Compares the metrics of a run with a baseline run, printing the results
+ * and writing them into `compareOutputPath` (HTML if the file extension is
+ * `.html`, markdown otherwise).
+ * @param config The compare configuration.
+ * @return True if any metric regression was detected.
+ */
+export async function compareRuns(config: CompareConfig): Promise<boolean> {
+  const { compareBaseline, compareCurrent, compareTolerances, compareOutputPath } = config
+  log.debug('compareRuns', { compareBaseline, compareCurrent, compareTolerances, compareOutputPath })
+  if (!compareCurrent) {
+    throw new Error('compareCurrent is required')
+  }
+  if (isRunSummary(compareBaseline) !== isRunSummary(compareCurrent)) {
+    throw new Error('compareBaseline and compareCurrent should be both JSON run summaries or both stats CSV files')
+  }
+  const deltas = compareRunMetrics(
+    loadRunMetrics(compareBaseline),
+    loadRunMetrics(compareCurrent),
+    parseCompareTolerances(compareTolerances),
+  )
+  console.log(formatComparisonMarkdown(deltas))
+
+  if (compareOutputPath) {
+    const out = compareOutputPath.endsWith('.html')
+      ? formatComparisonHtml(deltas, compareBaseline, compareCurrent)
+      : formatComparisonMarkdown(deltas)
+    await fs.promises.mkdir(path.dirname(compareOutputPath), { recursive: true })
+    await fs.promises.writeFile(compareOutputPath, out)
+    log.info(`Comparison written in ${compareOutputPath}`)
+  }
+
+  const regressions = deltas.filter(d => d.regression)
+  if (regressions.length) {
+    log.warn(`Detected ${regressions.length} regressions: ${regressions.map(d => `${d.name}.${d.key}`).join(', ')}`)
+  }
+  return regressions.length > 0
+}
+
+async function main(): Promise<void> {
+  const regression = await compareRuns({
+    compareBaseline: process.argv[2],
+    compareCurrent: process.argv[3],
+    compareTolerances: process.argv[4] || '',
+    compareOutputPath: process.argv[5] || '',
+  })
+  process.exit(regression ? 1 : 0)
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err)
+    process.exit(-1)
+  })
+}
@@ -1,13 +1,14 @@
 import convict, { addFormats } from 'convict'
 import { ipaddress, url } from 'convict-format-with-validator'
-import { existsSync } from 'fs'
+import { existsSync, readFileSync } from 'fs'
+import json5 from 'json5'
 import os from 'os'
 import { join } from 'path'
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const puppeteer = require('puppeteer-core')
 
-import { logger } from './utils'
+import { hideAuth, logger } from './utils'
 const log = logger('webrtcperf:config')
 
 const float = {
@@ -45,10 +46,50 @@ const index = {
   },
 }
 
-addFormats({ ipaddress, url, float, index })
+const contextIsolation = {
+  name: 'contextIsolation',
+  coerce: (v: unknown) => String(v),
+  validate: (v: string) => {
+    if (['', 'shared', 'tab'].includes(v)) return
+    if (!/^\d+$/.test(v) || !(parseInt(v) > 0)) throw new Error(`Invalid context isolation: ${v}`)
+  },
+}
+
+addFormats({ ipaddress, url, float, index, contextIsolation })
 
 // config schema
 const configSchema = convict({
+  configFiles: {
+    doc: `A comma-separated list of configuration file paths (JSON5 format) \
+loaded in the specified order, each one overriding the values set by the \
+previous files (e.g. \`base.json,staging.json,test-case.json\`). \
+The file path passed as first positional argument is loaded before this list.`,
+    format: String,
+    default: '',
+    nullable: true,
+    env: 'CONFIG_FILES',
+    arg: 'config-files',
+  },
+  configProfile: {
+    doc: `A comma-separated list of profile names to apply. Each configuration \
+file can contain a \`profiles\` object with named sets of values \
+(e.g. \`{ url: "...", profiles: { staging: { url: "..." } } }\`); the \
+selected profiles are applied in order on top of the file values.`,
+    format: String,
+    default: '',
+    nullable: true,
+    env: 'CONFIG_PROFILE',
+    arg: 'config-profile',
+  },
+  printConfig: {
+    doc: `If true, it prints the resolved configuration and the source that \
+set each value (default, file, profile, environment variable or command \
+line argument), then exits.`,
+    format: 'Boolean',
+    default: false,
+    env: 'PRINT_CONFIG',
+    arg: 'print-config',
+  },
   url: {
     doc: `The page url to load.`,
     format: String,
@@ -171,6 +212,58 @@ seconds.`,
     env: 'THROTTLE_CONFIG',
     arg: 'throttle-config',
   },
+  networkEmulation: {
+    doc: `A JSON5 string with the network emulation settings applied to each \
+page using the CDP \`Network.emulateNetworkConditions\` command. It doesn't \
+require root privileges and it can be used as alternative to \`throttleConfig\`. \
+Supported properties: \`latency\` (ms), \`uploadRate\` and \`downloadRate\` \
+(Kbps), \`packetLoss\` (%), \`packetQueueLength\` (packets) and \
+\`packetReordering\` (boolean); the packet settings are applied to the WebRTC \
+connections only. Example: \`{ latency: 100, uploadRate: 1000, downloadRate: 2000, packetLoss: 2 }\`. \
+The values are reported in the \`throttleUp*\` and \`throttleDown*\` metrics. \
+It can be overridden by each participant role.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'NETWORK_EMULATION',
+    arg: 'network-emulation',
+  },
+  networkTrace: {
+    doc: `A network trace replayed during the test, updating the \
+\`networkEmulation\` settings every second. It can be a trace file path, \
+applied to both the upload and download directions, or a JSON5 string with \
+the \`up\` and \`down\` trace file paths and the \`loop\` flag \
+(default: true). The trace files can contain CSV lines with \
+\`timestamp,rate,delay,loss\` values (seconds, Kbps, ms, %) or Mahimahi \
+packet delivery timestamps. The applied values are reported in the \
+\`throttleUp*\` and \`throttleDown*\` metrics. It can be overridden by each \
+participant role.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'NETWORK_TRACE',
+    arg: 'network-trace',
+  },
+  networkEvents: {
+    doc: `A JSON5 list of scheduled network impairment events, applied on \
+top of the \`networkEmulation\` and \`networkTrace\` settings. Each event \
+has a \`type\` (\`outage\`, \`cliff\` with a \`rate\` limitation in Kbps or \
+\`loss\` with a \`loss\` percentage), a start time \`at\` in seconds since \
+the test start (or a \`[min, max]\` range for a random start time), a \
+\`duration\` in seconds, the targeted \`sessions\` (e.g. \`0-2\` or \`1,3\`; \
+default: all) and an optional \`probability\` (0-1) that a targeted session \
+is affected. After each event, the time until the connected PeerConnections \
+and the inbound bitrate are back to the pre-event levels is reported in the \
+\`networkRecoveryConnectedTime\` and \`networkRecoveryBitrateTime\` metrics \
+(waiting at most \`recoveryTimeout\` seconds, default: 60). \
+Example: \`[{ type: "outage", at: 60, duration: 10, sessions: "0-1" }, { type: "cliff", at: [120, 180], duration: 30, rate: 300 }]\`. \
+It can be overridden by each participant role.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'NETWORK_EVENTS',
+    arg: 'network-events',
+  },
   randomAudioPeriod: {
     doc: `If not zero, it specifies the maximum period in seconds after which \
 a new random active tab is selected, enabling the getUserMedia audio tracks in \
@@ -253,6 +346,21 @@ chromium process.`,
     env: 'DEVICE_SCALE_FACTOR',
     arg: 'device-scale-factor',
   },
+  deviceProfile: {
+    doc: `The device emulation profile used by the browser pages. It can be \
+one of the predefined profiles (\`desktop\`, \`laptop-low-end\`, \`tablet\`, \
+\`mobile\`, \`mobile-low-end\`) or a JSON5 string with the custom profile \
+values (\`width\`, \`height\`, \`deviceScaleFactor\`, \`isMobile\`, \`hasTouch\`, \
+\`isLandscape\`, \`userAgent\`, \`cpuThrottlingRate\`); the \`name\` property \
+can be used to extend a predefined profile, e.g. \
+\`{ name: "mobile", cpuThrottlingRate: 4 }\`. When set, it overrides the \
+\`windowWidth\`, \`windowHeight\`, \`deviceScaleFactor\` and \`userAgent\` values.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'DEVICE_PROFILE',
+    arg: 'device-profile',
+  },
   maxVideoDecoders: {
     doc: `Specifies the maximum number of concurrent WebRTC video decoder \
 instances that can be created on the same host.
@@ -278,6 +386,20 @@ The total decoders count is stored into the virtual file \`/dev/shm/chromium-vid
     env: 'INCOGNITO',
     arg: 'incognito',
   },
+  contextIsolation: {
+    doc: `The browser contexts isolation of the session tabs: \
+\`shared\` uses the same context for all the tabs, \`tab\` creates a new \
+context for each tab, a number \`N\` creates a new context for each group of \
+N tabs. Each context holds its own permissions, cookies and storage and it is \
+closed with its last page. If not set, \`tab\` is used when \`incognito\` \
+or \`storageStatePath\` are enabled, \`shared\` (with the default browser \
+context) otherwise.`,
+    format: 'contextIsolation',
+    nullable: true,
+    default: '',
+    env: 'CONTEXT_ISOLATION',
+    arg: 'context-isolation',
+  },
   display: {
     doc: `If unset, the browser will run in headless mode.
 When running on MacOS or Windows, set it to any not-empty string.
@@ -339,6 +461,71 @@ calculated using \`Date.now()\``,
     env: 'SPAWN_RATE',
     arg: 'spawn-rate',
   },
+  sessionMaxRestarts: {
+    doc: `The maximum number of times a stopped session (or a closed page) \
+is restarted. If negative, the sessions are always restarted.`,
+    format: 'int',
+    default: -1,
+    env: 'SESSION_MAX_RESTARTS',
+    arg: 'session-max-restarts',
+  },
+  sessionRestartBackoff: {
+    doc: `The exponential backoff factor applied to the restart delay: the \
+n-th restart of a session will be delayed by \`spawnPeriod * sessionRestartBackoff ^ n\` \
+(1 second for the closed pages).`,
+    format: 'float',
+    default: 1,
+    env: 'SESSION_RESTART_BACKOFF',
+    arg: 'session-restart-backoff',
+  },
+  sessionRestartMaxDelay: {
+    doc: `The maximum session restart delay (seconds).`,
+    format: 'nat',
+    default: 60,
+    env: 'SESSION_RESTART_MAX_DELAY',
+    arg: 'session-restart-max-delay',
+  },
+  sessionRestartFailRun: {
+    doc: `If true, the test will be stopped and marked as failed when a \
+session reaches the \`sessionMaxRestarts\` limit.`,
+    format: 'Boolean',
+    default: false,
+    env: 'SESSION_RESTART_FAIL_RUN',
+    arg: 'session-restart-fail-run',
+  },
+  roles: {
+    doc: `A JSON5 string with a list of participant roles that replaces the \
+fixed \`sessions\` value. Each role starts \`pages\` pages (rounded up to a \
+multiple of \`tabsPerSession\`) and it can override the \`tabsPerSession\`, \
+\`url\`, \`urlQuery\`, \`scriptPath\`, \`scriptParams\`, \
+\`getUserMediaOverride\`, \`videoPath\` and \`throttleIndex\` values. Example: \
+\`[{ name: "publisher", pages: 2, scriptParams: { publish: true } }, \
+{ name: "viewer", pages: 20, tabsPerSession: 5, videoPath: "generate:null" }]\`. \
+The role name is added as \`role\` label to the stats metrics and it is \
+exposed to the page as \`window.WEBRTC_PERF_ROLE\`. When used with \
+\`scenario\`, the role pages are used as weights to assign a role to each \
+started session.`,
+    format: String,
+    default: '',
+    nullable: true,
+    env: 'ROLES',
+    arg: 'roles',
+  },
+  scenario: {
+    doc: `A JSON5 string with a list of load phases that replaces the fixed \
+\`sessions\` and \`spawnRate\` values. Each phase linearly starts or stops \
+sessions in \`rampDuration\` seconds to reach the target \`pages\` count, \
+then it holds the pages for \`holdDuration\` seconds. Example: \
+\`[{ name: "ramp-up", pages: 10, rampDuration: 60 }, { name: "hold", pages: 10, holdDuration: 300 }, \
+{ name: "ramp-down", pages: 0, rampDuration: 60 }]\`. \
+The phase name is added as marker to the stats output. If \`runDuration\` \
+is not set, the test will stop at the end of the last phase.`,
+    format: String,
+    default: '',
+    nullable: true,
+    env: 'SCENARIO',
+    arg: 'scenario',
+  },
   showPageLog: {
     doc: `If \`true\`, the pages console logs will be shown on console.`,
     format: 'Boolean',
@@ -363,6 +550,169 @@ on console. Regexp string allowed.`,
     env: 'PAGE_LOG_PATH',
     arg: 'page-log-path',
   },
+  chromeTraceSessions: {
+    doc: `The sessions whose pages are traced using the CDP \`Tracing\` domain \
+during the \`chromeTraceWindow\` or when an alert rule fails \
+(see \`chromeTraceAlertDuration\`). It can be \`true\`, a range \
+(e.g. \`0-2\`) or a comma separated list of session ids (e.g. \`0,3\`). \
+Since the Chrome tracing is browser-wide, only one page of each session is \
+traced, including the events of all the session pages. The trace files are \
+written in the \`serverData\` directory (if not set, in the \`pageLogPath\` \
+directory or in the system temporary directory).`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'CHROME_TRACE_SESSIONS',
+    arg: 'chrome-trace-sessions',
+  },
+  chromeTraceWindow: {
+    doc: `The Chrome trace time window, in the \`start-end\` format (seconds \
+since the test start, e.g. \`60-70\`).`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'CHROME_TRACE_WINDOW',
+    arg: 'chrome-trace-window',
+  },
+  chromeTraceAlertDuration: {
+    doc: `If greater than 0, the pages are traced for the given duration in \
+seconds when an alert rule starts failing (only once for each rule).`,
+    format: 'nat',
+    default: 0,
+    env: 'CHROME_TRACE_ALERT_DURATION',
+    arg: 'chrome-trace-alert-duration',
+  },
+  chromeTraceCategories: {
+    doc: `The Chrome trace categories, comma separated. If not set, the \
+DevTools performance panel default categories are used.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'CHROME_TRACE_CATEGORIES',
+    arg: 'chrome-trace-categories',
+  },
+  harSessions: {
+    doc: `It enables the pages network requests recording in HAR format for \
+the specified session indexes. A HAR file is written for each page when it \
+is closed, in the \`serverData\` directory (if not set, in the \
+\`pageLogPath\` directory or in the system temporary directory). At most \
+10000 entries are recorded for each page.`,
+    format: 'index',
+    nullable: true,
+    default: '',
+    env: 'HAR_SESSIONS',
+    arg: 'har-sessions',
+  },
+  harUrlFilter: {
+    doc: `If set, only the requests with an url matching this regular \
+expression are recorded in the HAR files.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'HAR_URL_FILTER',
+    arg: 'har-url-filter',
+  },
+  signalingUrlFilter: {
+    doc: `If set, only the page WebSocket connections with an url matching this \
+regular expression are included in the \`signaling*\` metrics.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'SIGNALING_URL_FILTER',
+    arg: 'signaling-url-filter',
+  },
+  signalingIdPath: {
+    doc: `The JSON path (e.g. \`id\` or \`data.transaction\`) of the signaling \
+messages id, used to match the sent requests with the received responses in \
+order to calculate the \`signalingLatency\` metric.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'SIGNALING_ID_PATH',
+    arg: 'signaling-id-path',
+  },
+  signalingLogSessions: {
+    doc: `It enables the signaling WebSocket frames logging for the specified \
+session indexes. The frames are written in JSONL format for each page in the \
+\`serverData\` directory (if not set, in the \`pageLogPath\` directory or in \
+the system temporary directory).`,
+    format: 'index',
+    nullable: true,
+    default: '',
+    env: 'SIGNALING_LOG_SESSIONS',
+    arg: 'signaling-log-sessions',
+  },
+  signalingLogFilter: {
+    doc: `If set, only the signaling frames with a payload matching this \
+regular expression are logged.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'SIGNALING_LOG_FILTER',
+    arg: 'signaling-log-filter',
+  },
+  screencastSessions: {
+    doc: `It enables the pages screencast video recording for the specified \
+session indexes, from the page load until the page is closed. The recording \
+can be also started and stopped using the \`/screencast/:sessionId\` server \
+endpoint. The video files are written in the \`serverData\` directory (if \
+not set, in the \`pageLogPath\` directory or in the system temporary \
+directory). It requires ffmpeg.`,
+    format: 'index',
+    nullable: true,
+    default: '',
+    env: 'SCREENCAST_SESSIONS',
+    arg: 'screencast-sessions',
+  },
+  screencastAlertDuration: {
+    doc: `If greater than 0, the pages of the \`screencastSessions\` are not \
+recorded from the page load, but only for the given duration in seconds when \
+an alert rule starts failing (only once for each rule).`,
+    format: 'nat',
+    default: 0,
+    env: 'SCREENCAST_ALERT_DURATION',
+    arg: 'screencast-alert-duration',
+  },
+  screencastFormat: {
+    doc: `The screencast video format.`,
+    format: ['webm', 'mp4'],
+    default: 'webm',
+    env: 'SCREENCAST_FORMAT',
+    arg: 'screencast-format',
+  },
+  screencastFps: {
+    doc: `The screencast video frame rate.`,
+    format: 'nat',
+    default: 10,
+    env: 'SCREENCAST_FPS',
+    arg: 'screencast-fps',
+  },
+  screencastQuality: {
+    doc: `The screencast captured frames JPEG quality (0-100).`,
+    format: 'nat',
+    default: 80,
+    env: 'SCREENCAST_QUALITY',
+    arg: 'screencast-quality',
+  },
+  screenshotInterval: {
+    doc: `If greater than 0, a screenshot of all the pages is captured with \
+the given interval in seconds. The JPEG files are written in the \
+\`screenshots\` sub directory of the \`serverData\` directory (if not set, \
+of the \`pageLogPath\` directory or of the system temporary directory). The \
+latest screenshots can be viewed with the \`/screenshots\` server endpoint.`,
+    format: 'nat',
+    default: 0,
+    env: 'SCREENSHOT_INTERVAL',
+    arg: 'screenshot-interval',
+  },
+  screenshotRetention: {
+    doc: `The number of periodic screenshots kept for each page: the older \
+files are deleted. If 0, all the screenshots are kept.`,
+    format: 'nat',
+    default: 10,
+    env: 'SCREENSHOT_RETENTION',
+    arg: 'screenshot-retention',
+  },
   userAgent: {
     doc: `The user agent override.`,
     format: String,
@@ -384,6 +734,28 @@ the following global variables will be attached to the \`window\` object: \
     env: 'SCRIPT_PATH',
     arg: 'script-path',
   },
+  pageActions: {
+    doc: `A JSON5 list of action steps executed in order on each page after \
+it is loaded. Each step has a \`type\` (\`wait-for-selector\`, \`click\`, \
+\`type\`, \`select\`, \`evaluate\`, \`sleep\`, \`reload\`, \`assert-text\`), \
+the type related properties (\`selector\`, \`text\`, \`value\`, \`expression\`, \
+\`duration\`, \`delay\`) and optionally a \`timeout\` in seconds (default: 30), \
+the \`retries\` count (default: 0), the \`retryDelay\` in seconds (default: 1) \
+and the \`optional\` flag (if false, the following steps are not executed when \
+the step fails). The \`text\` value can contain the \`$s\`, \`$t\` and \`$i\` \
+variables (session, tab and absolute page index). The steps duration and \
+failures are reported in the \`pageActionsDuration\` and \`pageActionsFailed\` \
+metrics; the steps with a \`name\` are also reported in the \
+\`<name>ActionDuration\` and \`<name>ActionFailed\` metrics. \
+Example: \`[{ type: "type", selector: "#name", text: "user-$i" }, \
+{ type: "click", selector: "#join", name: "join", retries: 2 }, \
+{ type: "assert-text", selector: "#status", text: "Connected" }]\``,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'PAGE_ACTIONS',
+    arg: 'page-actions',
+  },
   scriptParams: {
     doc: `Additional parameters (in JSON format) that will be exposed into
 the page context as \`window.PARAMS\`.`,
@@ -528,6 +900,52 @@ Rules containing "important" will be replaced with "!important".`,
     env: 'COOKIES',
     arg: 'cookies',
   },
+  storageStatePath: {
+    doc: `The directory containing the browser storage state files (cookies, \
+\`localStorage\` and IndexedDB content) of the login identities, or a single \
+state file path. Each page loads a different state file from the pool, in \
+alphabetical order, so every participant is a distinct authenticated user. \
+Each page uses its own browser context, so only the \`tab\` \
+\`contextIsolation\` is supported.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'STORAGE_STATE_PATH',
+    arg: 'storage-state-path',
+  },
+  storageStateLoginScript: {
+    doc: `If set, before starting the sessions, the login script is run for \
+each one of the \`storageStateIdentities\` without a state file, saving the \
+resulting browser storage state into \`<storageStatePath>/<identity name>.json\`. \
+The script should export by default an async function receiving the \
+puppeteer page and the identity object, e.g.: \
+\`module.exports = async (page, { username, password }) => { ... }\`.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'STORAGE_STATE_LOGIN_SCRIPT',
+    arg: 'storage-state-login-script',
+  },
+  storageStateLoginUrl: {
+    doc: `The page url opened before running the login script. If not set, \
+the \`url\` value is used.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'STORAGE_STATE_LOGIN_URL',
+    arg: 'storage-state-login-url',
+  },
+  storageStateIdentities: {
+    doc: `The login identities, as a JSON5 list or a file path containing it. \
+Each identity requires an unique \`name\` used as the state file name, the \
+other properties are passed to the login script. \
+Example: \`[{name: "user1", username: "user1@example.com", password: "secret"}]\``,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'STORAGE_STATE_IDENTITIES',
+    arg: 'storage-state-identities',
+  },
   overridePermissions: {
     doc: `A comma-separated list of permissions to grant to the opened url.`,
     format: String,
@@ -584,6 +1002,26 @@ Prometheus scraping interval.`,
     env: 'STATS_INTERVAL',
     arg: 'stats-interval',
   },
+  statsWarmup: {
+    doc: `The stats warm-up time in seconds, counted from when each page is \
+loaded. The samples collected from a page are excluded from the aggregated \
+stats (console output, stats files, Prometheus metrics and alert rules) until \
+its warm-up time has passed. It can be overridden by each participant role.`,
+    format: 'nat',
+    default: 0,
+    env: 'STATS_WARMUP',
+    arg: 'stats-warmup',
+  },
+  jsHeapGrowthWindow: {
+    doc: `The time window in seconds used to calculate the \`jsHeapGrowth\` \
+metric, the linear regression slope (MB/hour) of the page JS heap used size \
+samples. The metric is reported after the page has been running for the \
+whole window.`,
+    format: 'nat',
+    default: 300,
+    env: 'JS_HEAP_GROWTH_WINDOW',
+    arg: 'js-heap-growth-window',
+  },
   rtcStatsTimeout: {
     doc: `The timeout in seconds after which the RTC stats coming from inactive\
  hosts are removed. It should be higher than the \`statsInterval\` value.`,
@@ -659,6 +1097,59 @@ alert will be successful only when at least 95% of the checks pass.`,
     env: 'ALERT_RULES_FAIL_PERCENTILE',
     arg: 'alert-rules-fail-percentile',
   },
+  jsHeapGrowthLimit: {
+    doc: `If greater than 0, it adds a \`jsHeapGrowth\` alert rule with the \
+\`memoryLeak\` tag, failing when the page JS heap growth is greater than \
+this value (MB/hour). It is ignored if \`alertRules\` already contains a \
+\`jsHeapGrowth\` rule.`,
+    format: 'float',
+    default: 0,
+    env: 'JS_HEAP_GROWTH_LIMIT',
+    arg: 'js-heap-growth-limit',
+  },
+  alertRulesJunitFilename: {
+    doc: `The alert rules JUnit XML report output filename, written when the \
+test ends. It contains a test suite for each alert rule tag and a test case \
+for each rule; a rule fails when its fail amount percentile \
+(see \`alertRulesFailPercentile\`) is greater than 0.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'ALERT_RULES_JUNIT_FILENAME',
+    arg: 'alert-rules-junit-filename',
+  },
+  alertRulesFailExitCode: {
+    doc: `The process exit code used when any of the alert rules or tags \
+fails at the end of the test. Set it to 0 to disable the failure exit code.`,
+    format: 'nat',
+    default: 1,
+    env: 'ALERT_RULES_FAIL_EXIT_CODE',
+    arg: 'alert-rules-fail-exit-code',
+  },
+  reportPath: {
+    doc: `If set, a self-contained HTML report will be written to this file \
+path when the test ends. It contains the charts of the collected metrics \
+(mean, 5th and 95th percentiles over time, split by host and codec), the \
+alert rules results and the run configuration.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'REPORT_PATH',
+    arg: 'report-path',
+  },
+  summaryPath: {
+    doc: `If set, a JSON run summary will be written to this file path when \
+the test ends. It contains the run configuration (with the secrets redacted), \
+the start and end timestamps, the tool and browser versions, the final \
+aggregated values of each metric (also split by host and codec), the alert \
+rules report, the page errors and warnings counts and the number of session \
+restarts.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'SUMMARY_PATH',
+    arg: 'summary-path',
+  },
   pushStatsUrl: {
     doc: `The URL to push the collected stats.`,
     format: String,
@@ -699,7 +1190,9 @@ alert will be successful only when at least 95% of the checks pass.`,
     arg: 'server-use-https',
   },
   serverData: {
-    doc: `An optional path that the HTTP server will expose with the /data endpoint.`,
+    doc: `An optional path that the HTTP server will expose with the /data endpoint. \
+If set, the page traces, HAR files, signaling logs, screencasts and screenshots \
+are written in this directory.`,
     format: String,
     nullable: true,
     default: '',
@@ -791,6 +1284,52 @@ E.g. \`{ w: "iw-10", h: "ih-5", x: "10", y: '5' }\``,
     env: 'VISQOL_KEEP_SOURCE_FILES',
     arg: 'visqol-keep-source-files',
   },
+  compareBaseline: {
+    doc: `When set, it compares the metrics of the \`compareCurrent\` run with \
+this baseline run and exits. Both the files should be stats CSV files (the \
+\`statsPath\` output) or JSON run summaries. The process exits with code 1 \
+when any regression is detected.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'COMPARE_BASELINE',
+    arg: 'compare-baseline',
+  },
+  compareCurrent: {
+    doc: `The current run stats CSV file or JSON run summary to compare with \
+the \`compareBaseline\` run.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'COMPARE_CURRENT',
+    arg: 'compare-current',
+  },
+  compareTolerances: {
+    doc: `The tolerance thresholds used to detect the regressions, in JSON5 \
+format. The keys are the metric names (or \`default\` for all the other \
+metrics) and the values are the allowed percentage changes of the \`mean\`, \
+\`p95\` and \`max\` values from the baseline. The optional \`direction\` \
+property sets which change is considered a regression: \`increase\`, \
+\`decrease\` or \`any\`. By default, only the worse direction is a \
+regression: \`decrease\` for the bitrates, frame rates, frames and sizes \
+metrics, \`increase\` for all the others. Example: \
+\`{ default: { mean: 10, p95: 10, max: 20 }, cpu: { mean: 5 }, \
+audioRecvLevel: { mean: 5, direction: "any" } }\`.`,
+    format: String,
+    nullable: true,
+    default: '{ default: { mean: 10, p95: 10, max: 20 } }',
+    env: 'COMPARE_TOLERANCES',
+    arg: 'compare-tolerances',
+  },
+  compareOutputPath: {
+    doc: `If set, the comparison table will be written to this file path, as \
+HTML if the file extension is \`.html\`, as markdown otherwise.`,
+    format: String,
+    nullable: true,
+    default: '',
+    env: 'COMPARE_OUTPUT_PATH',
+    arg: 'compare-output-path',
+  },
 })
 
 type ConfigDocs = Record<string, { doc: string; format: string; default: string }>
@@ -837,21 +1376,116 @@ const _schemaProperties = configSchema.getProperties()
 /** [[include:config.md]] */
 export type Config = typeof _schemaProperties
 
+/** The source that set each config property value. */
+const configSources: Record<string, string> = {}
+
+/**
+ * Loads the values into the config schema, updating the properties sources.
+ * @param values The config values.
+ * @param source The source description.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function loadConfigLayer(values: Record<string, any>, source: string): void {
+  configSchema.load(values)
+  Object.keys(values).forEach(name => {
+    configSources[name] = source
+  })
+}
+
+/**
+ * Loads a config file and the selected profiles contained into it.
+ * @param filePath The config file path.
+ * @param profiles The profile names to apply.
+ * @return The profile names found in the file.
+ */
+function loadConfigFile(filePath: string, profiles: string[]): string[] {
+  log.debug(`Loading config from ${filePath}`)
+  const { profiles: fileProfiles, ...values } = json5.parse(readFileSync(filePath, 'utf-8'))
+  loadConfigLayer(values, `file:${filePath}`)
+  const found: string[] = []
+  for (const profile of profiles) {
+    if (fileProfiles && fileProfiles[profile]) {
+      log.debug(`Loading config profile "${profile}" from ${filePath}`)
+      loadConfigLayer(fileProfiles[profile], `profile:${filePath}#${profile}`)
+      found.push(profile)
+    }
+  }
+  return found
+}
+
+/**
+ * Updates the sources of the properties set by environment variables or
+ * command line arguments, that always override the other values.
+ */
+function updateEnvArgsSources(): void {
+  const args = process.argv.slice(2)
+  Object.entries(configSchema.getSchema()._cvtProperties).forEach(([name, value]) => {
+    const { env, arg } = value as { env?: string; arg?: string }
+    if (arg && args.some(a => a === `--${arg}` || a.startsWith(`--${arg}=`) || a === `--no-${arg}`)) {
+      configSources[name] = `arg:--${arg}`
+    } else if (env && process.env[env] !== undefined) {
+      configSources[name] = `env:${env}`
+    }
+  })
+}
+
+/**
+ * Returns the source that set each config property value: `default`,
+ * `file:<path>`, `profile:<path>#<name>`, `values`, `env:<NAME>` or
+ * `arg:--<name>`.
+ */
+export function getConfigSources(): Record<string, string> {
+  return Object.keys(configSchema.getProperties()).reduce(
+    (prev, name) => {
+      prev[name] = configSources[name] || 'default'
+      return prev
+    },
+    {} as Record<string, string>,
+  )
+}
+
 /**
  * Loads the config object.
+ * @param filePath One or more config file paths (a comma-separated string or
+ * an array) loaded before the \`configFiles\` option files.
+ * @param values Additional values applied after the config files.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function loadConfig(filePath?: string, values?: any): Config {
-  if (filePath && existsSync(filePath)) {
-    log.debug(`Loading config from ${filePath}`)
-    configSchema.loadFile(filePath)
-  } else if (values) {
+export function loadConfig(filePath?: string | string[], values?: any): Config {
+  const filePaths = (Array.isArray(filePath) ? filePath : (filePath || '').split(','))
+    .map(s => s.trim())
+    .filter(s => s.length && existsSync(s))
+  const { configFiles, configProfile } = configSchema.getProperties()
+  for (const configFile of (configFiles || '').split(',').map(s => s.trim())) {
+    if (!configFile) continue
+    if (!existsSync(configFile)) {
+      throw new Error(`Config file not found: ${configFile}`)
+    }
+    filePaths.push(configFile)
+  }
+  const profiles = (configProfile || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s.length)
+
+  if (filePaths.length) {
+    const foundProfiles = new Set<string>()
+    for (const configFile of filePaths) {
+      loadConfigFile(configFile, profiles).forEach(p => foundProfiles.add(p))
+    }
+    const missingProfiles = profiles.filter(p => !foundProfiles.has(p))
+    if (missingProfiles.length) {
+      throw new Error(`Config profiles not found: ${missingProfiles.join(', ')}`)
+    }
+  }
+  if (values) {
     log.debug('Loading config from values.')
-    configSchema.load(values)
-  } else {
+    loadConfigLayer(values, 'values')
+  } else if (!filePaths.length) {
     log.debug('Using default values.')
     configSchema.load({})
   }
+  updateEnvArgsSources()
 
   configSchema.validate({ allowed: 'strict' })
   const config = configSchema.getProperties()
@@ -859,3 +1493,42 @@ export function loadConfig(filePath?: string, values?: any): Config {
   log.debug('Using config:', config)
   return config
 }
+
+/**
+ * The config options that can contain secrets (credentials, authorization
+ * headers, session cookies or tokens). The `roles` option is included since
+ * each role can set its own `scriptParams` and `urlQuery` values.
+ */
+const SensitiveConfigOptions = new Set([
+  'serverSecret',
+  'prometheusPushgatewayAuth',
+  'urlQuery',
+  'extraHeaders',
+  'cookies',
+  'localStorage',
+  'scriptParams',
+  'storageStateIdentities',
+  'pageActions',
+  'roles',
+])
+
+/**
+ * Returns a copy of the config object with the sensitive values (see
+ * `SensitiveConfigOptions`) and the URLs credentials redacted.
+ * @param config The config object.
+ */
+export function redactConfig(config: Record<string, unknown>): Record<string, unknown> {
+  return Object.entries(config).reduce(
+    (prev, [name, value]) => {
+      if (SensitiveConfigOptions.has(name) && value) {
+        prev[name] = '***'
+      } else if (typeof value === 'string') {
+        prev[name] = hideAuth(value)
+      } else {
+        prev[name] = value
+      }
+      return prev
+    },
+    {} as Record<string, unknown>,
+  )
+}
@@ -0,0 +1,118 @@
+import json5 from 'json5'
+
+/**
+ * A device emulation profile.
+ */
+export interface DeviceProfile {
+  /** The viewport width. */
+  width: number
+  /** The viewport height. */
+  height: number
+  /** The device scale factor. */
+  deviceScaleFactor: number
+  /** If the `meta viewport` tag is taken into account. */
+  isMobile: boolean
+  /** If the touch events are enabled. */
+  hasTouch: boolean
+  /** If the viewport is in landscape mode. */
+  isLandscape: boolean
+  /** The user agent string. */
+  userAgent?: string
+  /** The CPU throttling rate (1 is no throttling, 2 is 2x slowdown, etc.). */
+  cpuThrottlingRate?: number
+}
+
+const MOBILE_USER_AGENT =
+  'Mozilla/5.0 (Linux; Android 13; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36'
+
+const TABLET_USER_AGENT =
+  'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+
+/**
+ * The predefined device profiles.
+ */
+export const DeviceProfiles: Record<string, DeviceProfile> = {
+  desktop: {
+    width: 1920,
+    height: 1080,
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+    isLandscape: false,
+  },
+  'laptop-low-end': {
+    width: 1366,
+    height: 768,
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+    isLandscape: false,
+    cpuThrottlingRate: 4,
+  },
+  tablet: {
+    width: 800,
+    height: 1280,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    isLandscape: false,
+    userAgent: TABLET_USER_AGENT,
+    cpuThrottlingRate: 2,
+  },
+  mobile: {
+    width: 412,
+    height: 915,
+    deviceScaleFactor: 2.625,
+    isMobile: true,
+    hasTouch: true,
+    isLandscape: false,
+    userAgent: MOBILE_USER_AGENT,
+    cpuThrottlingRate: 2,
+  },
+  'mobile-low-end': {
+    width: 360,
+    height: 640,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    isLandscape: false,
+    userAgent: MOBILE_USER_AGENT,
+    cpuThrottlingRate: 6,
+  },
+}
+
+/**
+ * Parses the `deviceProfile` config option.
+ * @param deviceProfile A predefined profile name or a JSON5 string with the
+ * custom profile values. A custom profile can extend a predefined one using
+ * the `name` property.
+ * @return The device profile or `null` if not set.
+ */
+export function parseDeviceProfile(deviceProfile: string): DeviceProfile | null {
+  deviceProfile = deviceProfile?.trim()
+  if (!deviceProfile) {
+    return null
+  }
+  let values: Partial<DeviceProfile> & { name?: string }
+  if (deviceProfile.startsWith('{')) {
+    values = json5.parse(deviceProfile)
+  } else {
+    values = { name: deviceProfile }
+  }
+  const { name, ...overrides } = values
+  let base = DeviceProfiles.desktop
+  if (name) {
+    if (!DeviceProfiles[name]) {
+      throw new Error(`Unknown device profile: ${name} (available profiles: ${Object.keys(DeviceProfiles).join(', ')})`)
+    }
+    base = DeviceProfiles[name]
+  }
+  const profile = { ...base, ...overrides }
+  if (!(profile.width > 0) || !(profile.height > 0)) {
+    throw new Error(`Invalid device profile viewport: ${profile.width}x${profile.height}`)
+  }
+  if (profile.cpuThrottlingRate !== undefined && !(profile.cpuThrottlingRate >= 1)) {
+    throw new Error(`Invalid device profile cpuThrottlingRate: ${profile.cpuThrottlingRate}`)
+  }
+  return profile
+}
@@ -12,9 +12,15 @@ lower precedence):
 
 - arguments passed to the executable in kebab case (e.g. \`--url-query\`);
 - environment variables in uppercase snake format (e.g. \`URL_QUERY\`);
-- \`config.json\` configuration file;
+- the configuration files listed in \`--config-files\`, the last one having the
+  higher precedence; the profiles selected with \`--config-profile\` override
+  the values of the file containing them;
+- the configuration file passed as first positional argument (e.g. \`config.json\`);
 - default values.
 
+Use \`--print-config\` to show the resolved configuration and the source that set
+each value.
+
 `
 
 const configDocs = getConfigDocs()
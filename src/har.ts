@@ -0,0 +1,255 @@
+import fs from 'fs'
+import path from 'path'
+import { CDPSession, Protocol } from 'puppeteer-core'
+
+import { getPackageVersion, logger } from './utils'
+
+const log = logger('webrtcperf:har')
+
+/** The maximum number of entries kept in memory for each page. */
+const HAR_MAX_ENTRIES = 10000
+
+interface HarHeader {
+  name: string
+  value: string
+}
+
+/** A HAR entry timings (ms), -1 when not available. */
+interface HarTimings {
+  blocked: number
+  dns: number
+  connect: number
+  ssl: number
+  send: number
+  wait: number
+  receive: number
+}
+
+/** A HAR log entry. */
+export interface HarEntry {
+  pageref: string
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarHeader[]
+    queryString: HarHeader[]
+    cookies: []
+    headersSize: number
+    bodySize: number
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarHeader[]
+    cookies: []
+    content: { size: number; mimeType: string }
+    redirectURL: string
+    headersSize: number
+    bodySize: number
+    _transferSize: number
+    _error?: string
+  }
+  cache: Record<string, never>
+  timings: HarTimings
+  serverIPAddress?: string
+  connection?: string
+}
+
+/** A pending request collected from the CDP events. */
+interface HarRequest {
+  url: string
+  request: Protocol.Network.Request
+  timestamp: number
+  wallTime: number
+  response?: Protocol.Network.Response
+  dataLength: number
+  encodedDataLength: number
+}
+
+function toHarHeaders(headers: Record<string, string> = {}): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }))
+}
+
+function toHarQueryString(url: string): HarHeader[] {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Calculates the HAR timings from the CDP resource timing.
+ * @param timing The CDP resource timing.
+ * @param endTimestamp The loading end monotonic timestamp (s).
+ */
+function toHarTimings(timing: Protocol.Network.ResourceTiming | undefined, endTimestamp: number): HarTimings {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 }
+  }
+  const { dnsStart, dnsEnd, connectStart, connectEnd, sslStart, sslEnd, sendStart, sendEnd, receiveHeadersEnd } = timing
+  const duration = (start: number, end: number): number => (start >= 0 ? end - start : -1)
+  return {
+    blocked: [dnsStart, connectStart, sendStart].find(v => v >= 0) ?? -1,
+    dns: duration(dnsStart, dnsEnd),
+    connect: duration(connectStart, connectEnd),
+    ssl: duration(sslStart, sslEnd),
+    send: Math.max(sendEnd - sendStart, 0),
+    wait: Math.max(receiveHeadersEnd - sendEnd, 0),
+    receive: Math.max((endTimestamp - timing.requestTime) * 1000 - receiveHeadersEnd, 0),
+  }
+}
+
+/**
+ * Records the page network requests from the CDP `Network` events and writes
+ * them in HAR format. At most `HAR_MAX_ENTRIES` entries are kept in memory,
+ * the following ones are dropped.
+ */
+export class HarRecorder {
+  private readonly pageref: string
+  private readonly title: string
+  private readonly startedDateTime = new Date().toISOString()
+  private readonly urlFilter: RegExp | null
+  private readonly requests = new Map<string, HarRequest>()
+  private readonly entries: HarEntry[] = []
+  private droppedEntries = 0
+
+  /**
+   * HarRecorder.
+   * @param cdp The page CDP session.
+   * @param pageref The page id.
+   * @param title The page title.
+   * @param urlFilter If set, only the request urls matching the regular expression are recorded.
+   */
+  constructor(cdp: CDPSession, pageref: string, title: string, urlFilter = '') {
+    this.pageref = pageref
+    this.title = title
+    this.urlFilter = urlFilter ? new RegExp(urlFilter) : null
+
+    cdp.on('Network.requestWillBeSent', event => {
+      const { requestId, request, timestamp, wallTime, redirectResponse } = event
+      if (request.url.startsWith('data:')) return
+      if (redirectResponse) {
+        const redirected = this.requests.get(requestId)
+        if (redirected) {
+          redirected.response = redirectResponse
+          this.addEntry(requestId, timestamp)
+        }
+      }
+      if (this.urlFilter && !this.urlFilter.test(request.url)) return
+      this.requests.set(requestId, {
+        url: request.url,
+        request,
+        timestamp,
+        wallTime,
+        dataLength: 0,
+        encodedDataLength: 0,
+      })
+    })
+
+    cdp.on('Network.responseReceived', event => {
+      const request = this.requests.get(event.requestId)
+      if (!request) return
+      request.response = event.response
+    })
+
+    cdp.on('Network.dataReceived', event => {
+      const request = this.requests.get(event.requestId)
+      if (!request) return
+      request.dataLength += event.dataLength
+    })
+
+    cdp.on('Network.loadingFinished', event => {
+      const request = this.requests.get(event.requestId)
+      if (!request) return
+      request.encodedDataLength = event.encodedDataLength
+      this.addEntry(event.requestId, event.timestamp)
+    })
+
+    cdp.on('Network.loadingFailed', event => {
+      if (!this.requests.has(event.requestId)) return
+      this.addEntry(event.requestId, event.timestamp, event.errorText)
+    })
+  }
+
+  private addEntry(requestId: string, endTimestamp: number, error?: string): void {
+    const harRequest = this.requests.get(requestId)
+    if (!harRequest) return
+    this.requests.delete(requestId)
+    if (this.entries.length >= HAR_MAX_ENTRIES) {
+      if (!this.droppedEntries) {
+        log.warn(`HAR entries limit (${HAR_MAX_ENTRIES}) reached for ${this.pageref}, dropping the next entries`)
+      }
+      this.droppedEntries++
+      return
+    }
+    const { url, request, timestamp, wallTime, response, dataLength, encodedDataLength } = harRequest
+    const timings = toHarTimings(response?.timing, endTimestamp)
+    const headersSize = response?.encodedDataLength || 0
+    this.entries.push({
+      pageref: this.pageref,
+      startedDateTime: new Date(wallTime * 1000).toISOString(),
+      time: Math.max((endTimestamp - timestamp) * 1000, 0),
+      request: {
+        method: request.method,
+        url,
+        httpVersion: response?.protocol || '',
+        headers: toHarHeaders(request.headers),
+        queryString: toHarQueryString(url),
+        cookies: [],
+        headersSize: -1,
+        bodySize: request.postData?.length || 0,
+      },
+      response: {
+        status: response?.status || 0,
+        statusText: response?.statusText || '',
+        httpVersion: response?.protocol || '',
+        headers: toHarHeaders(response?.headers),
+        cookies: [],
+        content: { size: dataLength, mimeType: response?.mimeType || '' },
+        redirectURL: response?.headers?.location || response?.headers?.Location || '',
+        headersSize: -1,
+        bodySize: encodedDataLength ? Math.max(encodedDataLength - headersSize, 0) : -1,
+        _transferSize: encodedDataLength,
+        _error: error,
+      },
+      cache: {},
+      timings,
+      serverIPAddress: response?.remoteIPAddress,
+      connection: response?.connectionId !== undefined ? String(response.connectionId) : undefined,
+    })
+  }
+
+  /**
+   * Writes the recorded entries into a HAR file.
+   * @param fpath The HAR file path.
+   */
+  async write(fpath: string): Promise<void> {
+    const har = {
+      log: {
+        version: '1.2',
+        creator: { name: 'webrtcperf', version: getPackageVersion() },
+        pages: [
+          {
+            startedDateTime: this.startedDateTime,
+            id: this.pageref,
+            title: this.title,
+            pageTimings: { onContentLoad: -1, onLoad: -1 },
+          },
+        ],
+        entries: this.entries,
+      },
+    }
+    await fs.promises.mkdir(path.dirname(fpath), { recursive: true })
+    await fs.promises.writeFile(fpath, JSON.stringify(har, null, 2))
+    log.info(
+      `HAR file written in ${fpath} (${this.entries.length} entries${
+        this.droppedEntries ? `, ${this.droppedEntries} dropped` : ''
+      })`,
+    )
+  }
+}
@@ -1,9 +1,21 @@
+export * from './actions'
 export * from './app'
+export * from './compare'
 export * from './config'
+export * from './devices'
+export * from './har'
 export * from './media'
+export * from './network'
+export * from './report'
+export * from './roles'
+export * from './room'
 export * from './rtcstats'
+export * from './scenario'
+export * from './screencast'
 export * from './server'
 export * from './session'
+export * from './signaling'
 export * from './stats'
+export * from './storage'
 export * from './utils'
 export * from './vmaf'
@@ -0,0 +1,307 @@
+import { readFileSync } from 'fs'
+import json5 from 'json5'
+import { CDPSession } from 'puppeteer-core'
+
+/**
+ * The network emulation settings applied to the pages using the CDP
+ * `Network.emulateNetworkConditions` command.
+ */
+export interface NetworkEmulation {
+  /** The additional latency (ms). */
+  latency?: number
+  /** The upload rate limitation (Kbps); 0 disables the limitation. */
+  uploadRate?: number
+  /** The download rate limitation (Kbps); 0 disables the limitation. */
+  downloadRate?: number
+  /** The WebRTC packet loss (%). */
+  packetLoss?: number
+  /** The WebRTC packet queue length (packets); 0 disables the limitation. */
+  packetQueueLength?: number
+  /** If the WebRTC packet reordering should be enabled. */
+  packetReordering?: boolean
+  /** If the page should be disconnected from the network. */
+  offline?: boolean
+}
+
+/**
+ * Parses the `networkEmulation` config option.
+ * @param networkEmulation A JSON5 string with the network emulation settings.
+ * @return The network emulation settings or `null` if not set.
+ */
+export function parseNetworkEmulation(networkEmulation: string): NetworkEmulation | null {
+  if (!networkEmulation?.trim()) {
+    return null
+  }
+  const values = json5.parse(networkEmulation)
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Invalid network emulation: it should be an object`)
+  }
+  for (const key of ['latency', 'uploadRate', 'downloadRate', 'packetLoss', 'packetQueueLength']) {
+    const value = values[key]
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`Invalid network emulation ${key}: ${value}`)
+    }
+  }
+  if (values.packetLoss > 100) {
+    throw new Error(`Invalid network emulation packetLoss: ${values.packetLoss}`)
+  }
+  return values
+}
+
+/**
+ * Applies the network emulation settings to a page.
+ * @param cdp The page CDP session.
+ * @param values The network emulation settings.
+ */
+export async function applyNetworkEmulation(cdp: CDPSession, values: NetworkEmulation): Promise<void> {
+  const { latency, uploadRate, downloadRate, packetLoss, packetQueueLength, packetReordering, offline } = values
+  await cdp.send('Network.emulateNetworkConditions', {
+    offline: !!offline,
+    latency: latency || 0,
+    downloadThroughput: downloadRate ? (downloadRate * 1000) / 8 : -1,
+    uploadThroughput: uploadRate ? (uploadRate * 1000) / 8 : -1,
+    packetLoss: packetLoss || 0,
+    packetQueueLength: packetQueueLength || 0,
+    packetReordering: !!packetReordering,
+  })
+}
+
+/** A network trace point. */
+export interface NetworkTracePoint {
+  /** The time offset from the trace start (s). */
+  time: number
+  /** The rate limitation (Kbps). */
+  rate?: number
+  /** The delay (ms). */
+  delay?: number
+  /** The packet loss (%). */
+  loss?: number
+}
+
+/** The network traces replayed on the pages. */
+export interface NetworkTraces {
+  /** The upload trace points. */
+  up?: NetworkTracePoint[]
+  /** The download trace points. */
+  down?: NetworkTracePoint[]
+  /** If the traces should be replayed from the beginning when ended. */
+  loop: boolean
+}
+
+/** The Mahimahi trace packet size (bytes). */
+const MAHIMAHI_PACKET_SIZE = 1500
+
+/**
+ * Parses a network trace file. Two formats are supported:
+ * - CSV lines with `timestamp,rate,delay,loss` values (seconds, Kbps, ms, %),
+ * where the empty values are not changed;
+ * - Mahimahi traces, with a line for each packet delivery opportunity
+ * timestamp (ms); the rate is calculated for each 1 second window.
+ * @param data The trace file content.
+ */
+export function parseNetworkTrace(data: string): NetworkTracePoint[] {
+  const lines = data
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+  if (!lines.length) {
+    throw new Error('Empty network trace')
+  }
+  if (lines.some(line => line.includes(','))) {
+    const points: NetworkTracePoint[] = []
+    for (const line of lines) {
+      const [time, rate, delay, loss] = line.split(',').map(v => (v.trim() ? parseFloat(v) : undefined))
+      if (time === undefined || isNaN(time)) {
+        // Header line.
+        continue
+      }
+      points.push({ time, rate, delay, loss })
+    }
+    if (!points.length) {
+      throw new Error('Empty network trace')
+    }
+    return points.sort((a, b) => a.time - b.time)
+  }
+  const opportunities = new Map<number, number>()
+  let end = 0
+  for (const line of lines) {
+    const timestamp = parseInt(line)
+    if (isNaN(timestamp)) {
+      throw new Error(`Invalid Mahimahi trace line: ${line}`)
+    }
+    const window = Math.floor(timestamp / 1000)
+    opportunities.set(window, (opportunities.get(window) || 0) + 1)
+    end = Math.max(end, window)
+  }
+  const points: NetworkTracePoint[] = []
+  for (let window = 0; window <= end; window++) {
+    // A zero rate disables the limitation, use the minimum rate instead.
+    const rate = Math.max(((opportunities.get(window) || 0) * MAHIMAHI_PACKET_SIZE * 8) / 1000, 1)
+    points.push({ time: window, rate })
+  }
+  return points
+}
+
+/**
+ * Parses the `networkTrace` config option.
+ * @param networkTrace The trace file path, applied to both the directions,
+ * or a JSON5 string with the `up` and `down` trace file paths and the
+ * `loop` flag (default: true).
+ * @return The parsed traces or `null` if not set.
+ */
+export function loadNetworkTraces(networkTrace: string): NetworkTraces | null {
+  networkTrace = networkTrace?.trim()
+  if (!networkTrace) {
+    return null
+  }
+  let up: string | undefined
+  let down: string | undefined
+  let loop = true
+  if (networkTrace.startsWith('{')) {
+    const values = json5.parse(networkTrace)
+    up = values.up
+    down = values.down
+    loop = values.loop ?? true
+  } else {
+    up = down = networkTrace
+  }
+  if (!up && !down) {
+    throw new Error(`Invalid network trace: ${networkTrace}`)
+  }
+  return {
+    up: up ? parseNetworkTrace(readFileSync(up, 'utf8')) : undefined,
+    down: down ? parseNetworkTrace(readFileSync(down, 'utf8')) : undefined,
+    loop,
+  }
+}
+
+/**
+ * Returns the trace values at the provided time, merging the values of the
+ * previous points.
+ * @param points The trace points.
+ * @param time The elapsed time (s).
+ * @param loop If the trace should be replayed from the beginning when ended.
+ */
+function getTraceValues(points: NetworkTracePoint[], time: number, loop: boolean): NetworkTracePoint {
+  const duration = points[points.length - 1].time + (points.length > 1 ? points[1].time - points[0].time : 1)
+  if (loop && duration > 0) {
+    time = time % duration
+  }
+  const values: NetworkTracePoint = { time }
+  for (const { time: pointTime, rate, delay, loss } of points) {
+    if (pointTime > time) break
+    if (rate !== undefined) values.rate = rate
+    if (delay !== undefined) values.delay = delay
+    if (loss !== undefined) values.loss = loss
+  }
+  return values
+}
+
+/**
+ * Returns the network emulation settings for the provided trace time.
+ * The latency and the packet loss are the maximum values of the two
+ * directions.
+ * @param traces The network traces.
+ * @param time The elapsed time (s).
+ * @param base The base network emulation settings.
+ */
+export function getNetworkTracesEmulation(
+  traces: NetworkTraces,
+  time: number,
+  base: NetworkEmulation | null,
+): NetworkEmulation {
+  const up = traces.up ? getTraceValues(traces.up, time, traces.loop) : null
+  const down = traces.down ? getTraceValues(traces.down, time, traces.loop) : null
+  const values: NetworkEmulation = { ...base }
+  if (up?.rate !== undefined) values.uploadRate = up.rate
+  if (down?.rate !== undefined) values.downloadRate = down.rate
+  const delays = [up?.delay, down?.delay].filter(v => v !== undefined) as number[]
+  if (delays.length) values.latency = Math.max(...delays)
+  const losses = [up?.loss, down?.loss].filter(v => v !== undefined) as number[]
+  if (losses.length) values.packetLoss = Math.max(...losses)
+  return values
+}
+
+/** A scheduled network event type. */
+export type NetworkEventType = 'outage' | 'cliff' | 'loss'
+
+/** A scheduled network impairment event. */
+export interface NetworkEvent {
+  /**
+   * The event type: `outage` disconnects the pages from the network,
+   * `cliff` sets a bandwidth limitation, `loss` sets a packet loss burst.
+   */
+  type: NetworkEventType
+  /**
+   * The event start time (s) since the test start; if a `[min, max]` range is
+   * provided, a random time is selected for each session.
+   */
+  at: number | [number, number]
+  /** The event duration (s). */
+  duration: number
+  /** The sessions targeted by the event (e.g. `0-2` or `1,3`; default: all). */
+  sessions?: string
+  /** The probability (0-1) that a targeted session is affected (default: 1). */
+  probability?: number
+  /** The `cliff` rate limitation (Kbps), applied to both the directions. */
+  rate?: number
+  /** The `loss` packet loss (%). */
+  loss?: number
+  /** The maximum time (s) waited for the recovery after the event end (default: 60). */
+  recoveryTimeout?: number
+}
+
+/**
+ * Parses the `networkEvents` config option.
+ * @param networkEvents A JSON5 string with the list of network events.
+ */
+export function parseNetworkEvents(networkEvents: string): NetworkEvent[] {
+  if (!networkEvents?.trim()) {
+    return []
+  }
+  const values = json5.parse(networkEvents)
+  if (!Array.isArray(values)) {
+    throw new Error(`Invalid network events: it should be a list of events`)
+  }
+  values.forEach((event: NetworkEvent, i) => {
+    const { type, at, duration, probability, rate, loss, recoveryTimeout } = event
+    if (!['outage', 'cliff', 'loss'].includes(type)) {
+      throw new Error(`Invalid network event ${i} type: ${type}`)
+    }
+    const range = Array.isArray(at) ? at : [at, at]
+    if (range.length !== 2 || !(range[0] >= 0) || !(range[1] >= range[0])) {
+      throw new Error(`Invalid network event ${i} at: ${JSON.stringify(at)}`)
+    }
+    if (!(duration > 0)) {
+      throw new Error(`Invalid network event ${i} duration: ${duration}`)
+    }
+    if (probability !== undefined && !(probability >= 0 && probability <= 1)) {
+      throw new Error(`Invalid network event ${i} probability: ${probability}`)
+    }
+    if (type === 'cliff' && !(rate && rate > 0)) {
+      throw new Error(`Invalid network event ${i} rate: ${rate}`)
+    }
+    if (type === 'loss' && !(loss && loss > 0 && loss <= 100)) {
+      throw new Error(`Invalid network event ${i} loss: ${loss}`)
+    }
+    if (recoveryTimeout !== undefined && !(recoveryTimeout > 0)) {
+      throw new Error(`Invalid network event ${i} recoveryTimeout: ${recoveryTimeout}`)
+    }
+  })
+  return values
+}
+
+/**
+ * Returns the network emulation settings overridden by a network event.
+ * @param event The network event.
+ */
+export function getNetworkEventEmulation(event: NetworkEvent): NetworkEmulation {
+  switch (event.type) {
+    case 'outage':
+      return { offline: true, packetLoss: 100 }
+    case 'cliff':
+      return { uploadRate: event.rate, downloadRate: event.rate }
+    case 'loss':
+      return { packetLoss: event.loss }
+  }
+}
@@ -0,0 +1,226 @@
+import fs from 'fs'
+import path from 'path'
+
+import { escapeHtml, logger } from './utils'
+
+const log = logger('webrtcperf:report')
+
+/** A stats time series point. */
+export interface StatsTimeSeriesPoint {
+  /** The elapsed time in seconds since the test start. */
+  x: number
+  mean: number
+  p5: number
+  p95: number
+}
+
+/**
+ * The per-interval stats values collected for each metric, by label
+ * (`all`, `host:<name>` or `codec:<name>`).
+ */
+export type StatsTimeSeries = Record<string, Record<string, StatsTimeSeriesPoint[]>>
+
+/** The HTML report data. */
+export interface StatsReport {
+  /** The test start timestamp. */
+  startTimestamp: number
+  /** The test end timestamp. */
+  endTimestamp: number
+  /** The tool version. */
+  version: string
+  /** The browser version. */
+  browserVersion: string
+  /** The run configuration. */
+  config: Record<string, unknown>
+  /** The collected metrics time series. */
+  timeSeries: StatsTimeSeries
+  /** The alert rules results. */
+  alertRules?: {
+    failed: boolean
+    rules: {
+      name: string
+      tags: string[]
+      failed: boolean
+      failAmount: number
+      totalFails: number
+      totalFailsTimePerc: number
+      valueAverage: number
+    }[]
+    tags: Record<string, { failed: boolean; failAmount: number }>
+  }
+}
+
+const COLORS = [
+  'rgb(31, 119, 180)',
+  'rgb(255, 127, 14)',
+  'rgb(44, 160, 44)',
+  'rgb(214, 39, 40)',
+  'rgb(148, 103, 189)',
+  'rgb(140, 86, 75)',
+  'rgb(227, 119, 194)',
+  'rgb(127, 127, 127)',
+  'rgb(188, 189, 34)',
+  'rgb(23, 190, 207)',
+]
+
+/**
+ * Renders a chart with the mean, p5 and p95 values of each series.
+ * @param chartJSNodeCanvas The ChartJSNodeCanvas instance.
+ * @param title The chart title.
+ * @param series The series points by label.
+ * @return The PNG image as data URL.
+ */
+async function renderChart(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  chartJSNodeCanvas: any,
+  title: string,
+  series: Record<string, StatsTimeSeriesPoint[]>,
+): Promise<string> {
+  const datasets = Object.entries(series).flatMap(([label, points], i) => {
+    const color = COLORS[i % COLORS.length]
+    return (['mean', 'p5', 'p95'] as const).map(key => ({
+      label: `${label} ${key}`,
+      data: points.map(p => ({ x: p.x, y: p[key] })),
+      fill: false,
+      borderColor: color,
+      borderWidth: key === 'mean' ? 2 : 1,
+      borderDash: key === 'mean' ? [] : [4, 4],
+      pointRadius: 0,
+    }))
+  })
+  const buffer = await chartJSNodeCanvas.renderToBuffer({
+    type: 'line',
+    data: { datasets },
+    options: {
+      animation: false,
+      plugins: {
+        title: {
+          display: true,
+          text: title,
+        },
+        legend: {
+          labels: { boxWidth: 12 },
+        },
+      },
+      scales: {
+        x: {
+          type: 'linear',
+          title: { display: true, text: 'Time (s)' },
+        },
+      },
+    },
+  })
+  return `data:image/png;base64,${buffer.toString('base64')}`
+}
+
+/**
+ * Writes a self-contained HTML report with the collected metrics charts,
+ * the alert rules results and the run configuration.
+ * @param fpath The report file path.
+ * @param report The report data.
+ */
+export async function writeStatsReport(fpath: string, report: StatsReport): Promise<void> {
+  log.debug(`writeStatsReport ${fpath}`)
+  const { startTimestamp, endTimestamp, version, browserVersion, config, timeSeries, alertRules } = report
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let chartJSNodeCanvas: any = null
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { ChartJSNodeCanvas } = require('chartjs-node-canvas')
+    chartJSNodeCanvas = new ChartJSNodeCanvas({
+      width: 960,
+      height: 360,
+      backgroundColour: 'white',
+    })
+  } catch (err) {
+    log.warn(`chartjs-node-canvas not available, charts disabled: ${(err as Error).message}`)
+  }
+
+  let out = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>webrtcperf report ${new Date(startTimestamp).toISOString()}</title>
+<style>
+body { font-family: sans-serif; margin: 20px; }
+table { border-collapse: collapse; margin-bottom: 20px; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+.failed { color: #c00; font-weight: bold; }
+.passed { color: #080; font-weight: bold; }
+img { display: block; max-width: 100%; }
+pre { background: #f4f4f4; padding: 10px; overflow: auto; }
+</style>
+</head>
+<body>
+<h1>webrtcperf report</h1>
+<table>
+<tr><th>Version</th><td>${escapeHtml(version)}</td></tr>
+<tr><th>Browser</th><td>${escapeHtml(browserVersion || 'unknown')}</td></tr>
+<tr><th>Start time</th><td>${new Date(startTimestamp).toISOString()}</td></tr>
+<tr><th>End time</th><td>${new Date(endTimestamp).toISOString()}</td></tr>
+<tr><th>Duration</th><td>${Math.round((endTimestamp - startTimestamp) / 1000)}s</td></tr>
+</table>
+`
+  // Alert rules.
+  if (alertRules) {
+    out += `<h2>Alert rules: <span class="${alertRules.failed ? 'failed">FAILED' : 'passed">PASSED'}</span></h2>
+<table>
+<tr><th>Rule</th><th>Tags</th><th>Result</th><th>Fail amount %</th><th>Fails</th><th>Fail time (%)</th><th>Value average</th></tr>
+`
+    for (const rule of alertRules.rules) {
+      out += `<tr><td>${escapeHtml(rule.name)}</td><td>${escapeHtml(rule.tags.join(', '))}</td>\
+<td class="${rule.failed ? 'failed">FAILED' : 'passed">PASSED'}</td><td>${rule.failAmount}</td>\
+<td>${rule.totalFails}</td><td>${rule.totalFailsTimePerc}</td><td>${rule.valueAverage.toFixed(3)}</td></tr>\n`
+    }
+    out += `</table>
+<table>
+<tr><th>Tag</th><th>Result</th><th>Fail amount %</th></tr>
+`
+    for (const [tag, { failed, failAmount }] of Object.entries(alertRules.tags)) {
+      out += `<tr><td>${escapeHtml(tag)}</td><td class="${failed ? 'failed">FAILED' : 'passed">PASSED'}</td>\
+<td>${failAmount}</td></tr>\n`
+    }
+    out += `</table>\n`
+  }
+
+  // Metrics charts.
+  out += `<h2>Metrics</h2>\n`
+  for (const [name, series] of Object.entries(timeSeries)) {
+    if (!Object.keys(series).length) continue
+    out += `<h3 id="${escapeHtml(name)}">${escapeHtml(name)}</h3>\n`
+    if (!chartJSNodeCanvas) {
+      const last = series.all?.[series.all.length - 1]
+      if (last) {
+        out += `<p>mean: ${last.mean} p5: ${last.p5} p95: ${last.p95}</p>\n`
+      }
+      continue
+    }
+    const groups: Record<string, Record<string, StatsTimeSeriesPoint[]>> = {}
+    for (const [label, points] of Object.entries(series)) {
+      const group = label === 'all' ? 'all' : label.split(':')[0]
+      if (!groups[group]) {
+        groups[group] = {}
+      }
+      groups[group][label === 'all' ? 'all' : label.slice(group.length + 1)] = points
+    }
+    for (const [group, groupSeries] of Object.entries(groups)) {
+      try {
+        const src = await renderChart(chartJSNodeCanvas, group === 'all' ? name : `${name} by ${group}`, groupSeries)
+        out += `<img src="${src}" alt="${escapeHtml(name)} ${group}">\n`
+      } catch (err) {
+        log.error(`writeStatsReport chart ${name} error: ${(err as Error).stack}`)
+      }
+    }
+  }
+
+  // Run configuration.
+  out += `<h2>Configuration</h2>
+<pre>${escapeHtml(JSON.stringify(config, null, 2))}</pre>
+</body>
+</html>
+`
+  await fs.promises.mkdir(path.dirname(fpath), { recursive: true })
+  await fs.promises.writeFile(fpath, out)
+  log.info(`HTML report written in ${fpath}`)
+}
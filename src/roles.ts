@@ -0,0 +1,183 @@
+import json5 from 'json5'
+
+import { parseDeviceProfile } from './devices'
+import { loadNetworkTraces, parseNetworkEmulation, parseNetworkEvents } from './network'
+import { SessionParams } from './session'
+
+/**
+ * A participant role, used to start sessions with different settings.
+ */
+export interface ParticipantRole {
+  /** The role name, used as `role` label in the stats metrics. */
+  name: string
+  /** The number of pages to start with this role. */
+  pages: number
+  /** The number of tabs to open in each browser session. */
+  tabsPerSession?: number
+  /** The page url to load. */
+  url?: string
+  /** The query string to append to the page url. */
+  urlQuery?: string
+  /** The page script file path. */
+  scriptPath?: string
+  /** The page script parameters (JSON5 string). */
+  scriptParams?: string
+  /** The getUserMedia override options (JSON5 string). */
+  getUserMediaOverride?: string
+  /** The fake video path. */
+  videoPath?: string
+  /** The throttle configuration index assigned to the sessions. */
+  throttleIndex?: number
+  /** The stats warm-up time in seconds. */
+  statsWarmup?: number
+  /** The device emulation profile name or JSON5 values. */
+  deviceProfile?: string
+  /** The CDP network emulation settings (JSON5 string). */
+  networkEmulation?: string
+  /** The network trace file path or JSON5 settings. */
+  networkTrace?: string
+  /** The scheduled network events (JSON5 string). */
+  networkEvents?: string
+}
+
+/**
+ * Parses the `roles` config option.
+ * @param roles A JSON5 string with the list of roles.
+ */
+export function parseRoles(roles: string): ParticipantRole[] {
+  const values = json5.parse(roles)
+  if (!Array.isArray(values)) {
+    throw new Error(`Invalid roles: it should be a list of roles`)
+  }
+  const names = new Set<string>()
+  return values.map((role, i) => {
+    const {
+      name,
+      pages,
+      tabsPerSession,
+      scriptParams,
+      getUserMediaOverride,
+      statsWarmup,
+      deviceProfile,
+      networkEmulation,
+      networkTrace,
+      networkEvents,
+    } = role
+    if (!name || typeof name !== 'string') {
+      throw new Error(`Invalid role ${i} name: ${name}`)
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicated role name: ${name}`)
+    }
+    names.add(name)
+    if (!Number.isInteger(pages) || pages < 0) {
+      throw new Error(`Invalid role "${name}" pages: ${pages}`)
+    }
+    if (tabsPerSession !== undefined && (!Number.isInteger(tabsPerSession) || tabsPerSession < 1)) {
+      throw new Error(`Invalid role "${name}" tabsPerSession: ${tabsPerSession}`)
+    }
+    if (statsWarmup !== undefined && !(statsWarmup >= 0)) {
+      throw new Error(`Invalid role "${name}" statsWarmup: ${statsWarmup}`)
+    }
+    if (deviceProfile !== undefined) {
+      try {
+        parseDeviceProfile(typeof deviceProfile === 'object' ? JSON.stringify(deviceProfile) : deviceProfile)
+      } catch (err) {
+        throw new Error(`Invalid role "${name}" deviceProfile: ${(err as Error).message}`)
+      }
+    }
+    if (networkEmulation !== undefined) {
+      try {
+        parseNetworkEmulation(
+          typeof networkEmulation === 'object' ? JSON.stringify(networkEmulation) : networkEmulation,
+        )
+      } catch (err) {
+        throw new Error(`Invalid role "${name}" networkEmulation: ${(err as Error).message}`)
+      }
+    }
+    if (networkTrace !== undefined) {
+      try {
+        loadNetworkTraces(typeof networkTrace === 'object' ? JSON.stringify(networkTrace) : networkTrace)
+      } catch (err) {
+        throw new Error(`Invalid role "${name}" networkTrace: ${(err as Error).message}`)
+      }
+    }
+    if (networkEvents !== undefined) {
+      try {
+        parseNetworkEvents(typeof networkEvents === 'object' ? JSON.stringify(networkEvents) : networkEvents)
+      } catch (err) {
+        throw new Error(`Invalid role "${name}" networkEvents: ${(err as Error).message}`)
+      }
+    }
+    return {
+      ...role,
+      scriptParams: typeof scriptParams === 'object' ? JSON.stringify(scriptParams) : scriptParams,
+      deviceProfile: typeof deviceProfile === 'object' ? JSON.stringify(deviceProfile) : deviceProfile,
+      networkEmulation: typeof networkEmulation === 'object' ? JSON.stringify(networkEmulation) : networkEmulation,
+      networkTrace: typeof networkTrace === 'object' ? JSON.stringify(networkTrace) : networkTrace,
+      networkEvents: typeof networkEvents === 'object' ? JSON.stringify(networkEvents) : networkEvents,
+      getUserMediaOverride:
+        typeof getUserMediaOverride === 'object' ? JSON.stringify(getUserMediaOverride) : getUserMediaOverride,
+    }
+  })
+}
+
+/**
+ * Returns the role to assign to a new session, selecting the one with the
+ * lower ratio of started pages over the configured role pages.
+ * @param roles The roles list.
+ * @param startedPages The number of pages started for each role name.
+ */
+export function selectRole(roles: ParticipantRole[], startedPages: Map<string, number>): ParticipantRole | undefined {
+  let selected: ParticipantRole | undefined
+  let selectedRatio = Infinity
+  for (const role of roles) {
+    if (!role.pages) continue
+    const ratio = (startedPages.get(role.name) || 0) / role.pages
+    if (ratio < selectedRatio) {
+      selected = role
+      selectedRatio = ratio
+    }
+  }
+  return selected
+}
+
+/**
+ * Returns the session params overridden by the role.
+ * @param role The participant role.
+ */
+export function getRoleSessionParams(role: ParticipantRole): Partial<SessionParams> {
+  const {
+    name,
+    tabsPerSession,
+    url,
+    urlQuery,
+    scriptPath,
+    scriptParams,
+    getUserMediaOverride,
+    statsWarmup,
+    deviceProfile,
+    networkEmulation,
+    networkTrace,
+    networkEvents,
+  } = role
+  const params: Record<string, unknown> = { role: name }
+  Object.entries({
+    tabsPerSession,
+    url,
+    urlQuery,
+    scriptPath,
+    scriptParams,
+    getUserMediaOverride,
+    statsWarmup,
+    deviceProfile,
+    networkEmulation,
+    networkTrace,
+    networkEvents,
+  }).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params[key] = value
+    }
+  })
+  return params as Partial<SessionParams>
+}
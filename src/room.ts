@@ -0,0 +1,248 @@
+import { WebSocket } from 'ws'
+
+import { logger } from './utils'
+
+const log = logger('webrtcperf:room')
+
+/**
+ * Returns the loopback test room page: a minimal mesh conference that uses
+ * the {@link RoomSignaling} WebSocket endpoint for signaling.
+ * The page accepts the following query parameters:
+ * - `name`: the participant name;
+ * - `publish`: if `false`, the participant will only receive the remote
+ * tracks (default: `true`);
+ * - `audio`, `video`: if `false`, the related track is not published.
+ * @param roomId The room identifier (alphanumeric characters, `_` and `-`).
+ * @param serverSecret The server secret used to authenticate the WebSocket connection.
+ */
+export function getRoomPage(roomId: string, serverSecret: string): string {
+  return `<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Room ${roomId}</title>
+<style>
+body { margin: 0; background: #000; color: #fff; font-family: sans-serif; }
+#videos { display: flex; flex-wrap: wrap; }
+.participant { position: relative; width: 320px; height: 180px; }
+.participant video { width: 100%; height: 100%; object-fit: contain; }
+.participant span { position: absolute; left: 4px; bottom: 4px; font-size: 12px; }
+</style>
+</head>
+<body>
+<div id="videos"></div>
+<script>
+const ROOM_ID = ${JSON.stringify(roomId)};
+const AUTH = ${JSON.stringify(serverSecret)};
+const params = new URLSearchParams(location.search);
+const name = params.get('name') || 'Participant-' + Math.random().toString(36).slice(2, 8);
+const publish = params.get('publish') !== 'false';
+const peers = new Map();
+let localStream = null;
+let ws = null;
+
+function send(message) {
+  ws.send(JSON.stringify(message));
+}
+
+function addParticipant(id, stream, label) {
+  let el = document.getElementById('participant-' + id);
+  if (!el) {
+    el = document.createElement('div');
+    el.id = 'participant-' + id;
+    el.className = 'participant';
+    const video = document.createElement('video');
+    video.autoplay = true;
+    video.playsInline = true;
+    video.muted = id === 'local';
+    const span = document.createElement('span');
+    span.textContent = label;
+    el.appendChild(video);
+    el.appendChild(span);
+    document.getElementById('videos').appendChild(el);
+  }
+  const video = el.querySelector('video');
+  if (video.srcObject !== stream) {
+    video.srcObject = stream;
+  }
+}
+
+function removeParticipant(id) {
+  const el = document.getElementById('participant-' + id);
+  if (el) {
+    el.remove();
+  }
+}
+
+function createPeer(id, peerName) {
+  const pc = new RTCPeerConnection({ iceServers: [] });
+  if (localStream) {
+    localStream.getTracks().forEach(track => pc.addTrack(track, localStream));
+  } else {
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+    pc.addTransceiver('video', { direction: 'recvonly' });
+  }
+  pc.onicecandidate = ({ candidate }) => {
+    if (candidate) {
+      send({ type: 'candidate', to: id, candidate });
+    }
+  };
+  pc.ontrack = ({ track, streams }) => {
+    addParticipant(id, streams[0] || new MediaStream([track]), peerName);
+  };
+  pc.onconnectionstatechange = () => {
+    console.log('peer ' + peerName + ' connectionState: ' + pc.connectionState);
+  };
+  peers.set(id, pc);
+  return pc;
+}
+
+function closePeer(id) {
+  const pc = peers.get(id);
+  if (pc) {
+    pc.close();
+    peers.delete(id);
+  }
+  removeParticipant(id);
+}
+
+async function onMessage(message) {
+  switch (message.type) {
+    case 'peers': {
+      for (const peer of message.peers) {
+        const pc = createPeer(peer.id, peer.name);
+        await pc.setLocalDescription(await pc.createOffer());
+        send({ type: 'offer', to: peer.id, description: pc.localDescription });
+      }
+      break;
+    }
+    case 'offer': {
+      closePeer(message.from);
+      const pc = createPeer(message.from, message.name);
+      await pc.setRemoteDescription(message.description);
+      await pc.setLocalDescription(await pc.createAnswer());
+      send({ type: 'answer', to: message.from, description: pc.localDescription });
+      break;
+    }
+    case 'answer': {
+      const pc = peers.get(message.from);
+      if (pc) {
+        await pc.setRemoteDescription(message.description);
+      }
+      break;
+    }
+    case 'candidate': {
+      const pc = peers.get(message.from);
+      if (pc) {
+        await pc.addIceCandidate(message.candidate);
+      }
+      break;
+    }
+    case 'leave': {
+      closePeer(message.from);
+      break;
+    }
+  }
+}
+
+async function start() {
+  if (publish) {
+    localStream = await navigator.mediaDevices.getUserMedia({
+      audio: params.get('audio') !== 'false',
+      video: params.get('video') !== 'false',
+    });
+    addParticipant('local', localStream, name);
+  }
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  ws = new WebSocket(
+    protocol + '//' + location.host + '/?action=room&room=' + encodeURIComponent(ROOM_ID) + '&auth=' + encodeURIComponent(AUTH)
+  );
+  ws.onopen = () => send({ type: 'join', name });
+  ws.onmessage = ({ data }) => {
+    onMessage(JSON.parse(data)).catch(err => console.error('room message error: ' + err.message));
+  };
+  ws.onclose = () => {
+    console.warn('room signaling closed');
+    [...peers.keys()].forEach(closePeer);
+  };
+}
+
+start().catch(err => console.error('room start error: ' + err.message));
+</script>
+</body>
+</html>`
+}
+
+/**
+ * The loopback test room WebSocket signaling. It relays the messages between
+ * the participants joining the same room.
+ */
+export class RoomSignaling {
+  private readonly rooms = new Map<string, Map<string, { ws: WebSocket; name: string }>>()
+  private nextPeerId = 0
+
+  /**
+   * Adds a WebSocket connection to the room.
+   * @param roomId The room identifier.
+   * @param ws The participant WebSocket connection.
+   */
+  join(roomId: string, ws: WebSocket): void {
+    const id = String(this.nextPeerId++)
+    let peers: Map<string, { ws: WebSocket; name: string }> | undefined
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const { type, to, ...message } = JSON.parse(data.toString())
+        if (type === 'join' && !peers) {
+          peers = this.rooms.get(roomId)
+          if (!peers) {
+            peers = new Map()
+            this.rooms.set(roomId, peers)
+          }
+          log.debug(`room ${roomId} join ${id} (${message.name})`)
+          ws.send(
+            JSON.stringify({
+              type: 'peers',
+              peers: [...peers.entries()].map(([peerId, { name }]) => ({ id: peerId, name })),
+            }),
+          )
+          peers.set(id, { ws, name: message.name || id })
+          return
+        }
+        const peer = peers?.get(to)
+        if (!peer) {
+          log.warn(`room ${roomId} peer ${to} not found`)
+          return
+        }
+        peer.ws.send(JSON.stringify({ ...message, type, from: id, name: peers?.get(id)?.name }))
+      } catch (err) {
+        log.error(`room ${roomId} message error: ${(err as Error).message}`)
+      }
+    })
+
+    ws.on('close', () => {
+      if (!peers) return
+      log.debug(`room ${roomId} leave ${id}`)
+      peers.delete(id)
+      for (const peer of peers.values()) {
+        peer.ws.send(JSON.stringify({ type: 'leave', from: id }))
+      }
+      if (!peers.size) {
+        this.rooms.delete(roomId)
+      }
+      peers = undefined
+    })
+  }
+
+  /**
+   * Closes all the room connections.
+   */
+  stop(): void {
+    for (const room of this.rooms.values()) {
+      for (const { ws } of room.values()) {
+        ws.close()
+      }
+    }
+    this.rooms.clear()
+  }
+}
@@ -20,10 +20,52 @@ export enum PageStatsNames {
   usedMemory = 'usedMemory',
   /** The system total GPU usage. */
   usedGpu = 'usedGpu',
-  /** The page CPU usage. */
+  /** The page renderer process CPU usage. */
   pageCpu = 'pageCpu',
-  /** The page memory usage. */
+  /** The page renderer process memory usage. */
   pageMemory = 'pageMemory',
+  /** The browser main process CPU usage. */
+  browserProcessCpu = 'browserProcessCpu',
+  /** The browser main process memory usage. */
+  browserProcessMemory = 'browserProcessMemory',
+  /** The browser GPU process CPU usage. */
+  gpuProcessCpu = 'gpuProcessCpu',
+  /** The browser GPU process memory usage. */
+  gpuProcessMemory = 'gpuProcessMemory',
+  /** The browser network service process CPU usage. */
+  networkProcessCpu = 'networkProcessCpu',
+  /** The browser network service process memory usage. */
+  networkProcessMemory = 'networkProcessMemory',
+  /** The signaling WebSocket sent frames per second. */
+  signalingFramesSent = 'signalingFramesSent',
+  /** The signaling WebSocket received frames per second. */
+  signalingFramesReceived = 'signalingFramesReceived',
+  /** The signaling WebSocket sent payload bytes per second. */
+  signalingBytesSent = 'signalingBytesSent',
+  /** The signaling WebSocket received payload bytes per second. */
+  signalingBytesReceived = 'signalingBytesReceived',
+  /** The signaling request/response latency (ms). */
+  signalingLatency = 'signalingLatency',
+  /** The signaling WebSocket reconnections count. */
+  signalingReconnects = 'signalingReconnects',
+
+  /** The page JS heap used size. */
+  jsHeapUsedSize = 'jsHeapUsedSize',
+  /** The page JS heap total size. */
+  jsHeapTotalSize = 'jsHeapTotalSize',
+  /** The page JS heap used size growth rate (MB/hour). */
+  jsHeapGrowth = 'jsHeapGrowth',
+  /** The page DOM nodes count. */
+  domNodes = 'domNodes',
+  /** The page JS event listeners count. */
+  jsEventListeners = 'jsEventListeners',
+  /** The page documents count. */
+  documents = 'documents',
+
+  /** The page action steps total duration (ms). */
+  pageActionsDuration = 'pageActionsDuration',
+  /** The page action steps failures count. */
+  pageActionsFailed = 'pageActionsFailed',
 
   /** The opened pages count. */
   pages = 'pages',
@@ -43,11 +85,21 @@ export enum PageStatsNames {
   peerConnectionsDisconnected = 'peerConnectionsDisconnected',
   /** The total failed PeerConnections. */
   peerConnectionsFailed = 'peerConnectionsFailed',
+  /** The total ICE restarts. */
+  iceRestarts = 'iceRestarts',
+  /** The time (s) until the connected PeerConnections are back after a network event. */
+  networkRecoveryConnectedTime = 'networkRecoveryConnectedTime',
+  /** The time (s) until the inbound bitrate is back to the pre-event level after a network event. */
+  networkRecoveryBitrateTime = 'networkRecoveryBitrateTime',
 
   /** The page errors count. */
   errors = 'errors',
   /** The page warnings count. */
   warnings = 'warnings',
+  /** The session and page restarts count. */
+  restarts = 'restarts',
+  /** The browser and page crashes count. */
+  crashes = 'crashes',
 
   /** The page total HTTP received bytes. */
   httpRecvBytes = 'httpRecvBytes',
@@ -0,0 +1,165 @@
+import events from 'events'
+import json5 from 'json5'
+
+import { logger, sleep } from './utils'
+
+const log = logger('webrtcperf:scenario')
+
+/**
+ * A load scenario phase.
+ */
+export interface ScenarioPhase {
+  /** The phase name, used as marker in the stats output. */
+  name: string
+  /** The target number of pages at the end of the phase ramp. */
+  pages: number
+  /** The time in seconds used to linearly reach the target pages count. */
+  rampDuration: number
+  /** The time in seconds to hold the target pages count after the ramp. */
+  holdDuration: number
+}
+
+/**
+ * Parses the `scenario` config option.
+ * @param scenario A JSON5 string with the list of phases.
+ */
+export function parseScenario(scenario: string): ScenarioPhase[] {
+  const phases = json5.parse(scenario)
+  if (!Array.isArray(phases)) {
+    throw new Error(`Invalid scenario: it should be a list of phases`)
+  }
+  return phases.map((phase, i) => {
+    const { name, pages, rampDuration, holdDuration } = phase
+    if (!Number.isInteger(pages) || pages < 0) {
+      throw new Error(`Invalid scenario phase ${i} pages: ${pages}`)
+    }
+    return {
+      name: name || `phase${i}`,
+      pages,
+      rampDuration: Math.max(rampDuration || 0, 0),
+      holdDuration: Math.max(holdDuration || 0, 0),
+    }
+  })
+}
+
+/**
+ * The Scenario class runs the configured load phases, starting or stopping
+ * sessions to reach the target pages count of each phase.
+ * It emits a `phase` event when a new phase starts and an `end` event when
+ * all the phases are completed.
+ */
+export class Scenario extends events.EventEmitter {
+  readonly phases: ScenarioPhase[]
+  private readonly tabsPerSession: number
+  private readonly spawnPeriod: number
+  private readonly startSession: () => Promise<{ id: number; pages: number }>
+  private readonly stopSession: (id: number) => Promise<void>
+
+  /** The running sessions, in starting order. */
+  readonly sessions: { id: number; pages: number }[] = []
+  private running = false
+
+  /**
+   * Scenario.
+   * @param phases The scenario phases.
+   * @param tabsPerSession The default number of pages opened by each session.
+   * @param spawnPeriod The period in ms used when a phase has no ramp duration.
+   * @param startSession A function starting a new session and returning its
+   * id and the number of opened pages.
+   * @param stopSession A function stopping the session with the provided id.
+   */
+  constructor(
+    phases: ScenarioPhase[],
+    tabsPerSession: number,
+    spawnPeriod: number,
+    startSession: () => Promise<{ id: number; pages: number }>,
+    stopSession: (id: number) => Promise<void>,
+  ) {
+    super()
+    this.phases = phases
+    this.tabsPerSession = Math.max(tabsPerSession, 1)
+    this.spawnPeriod = spawnPeriod
+    this.startSession = startSession
+    this.stopSession = stopSession
+  }
+
+  /**
+   * Runs all the scenario phases.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      log.warn('already running')
+      return
+    }
+    this.running = true
+    for (const phase of this.phases) {
+      if (!this.running) break
+      await this.runPhase(phase)
+    }
+    if (this.running) {
+      log.info('Scenario completed')
+      this.running = false
+      this.emit('end')
+    }
+  }
+
+  /** The number of pages started by the scenario. */
+  get pages(): number {
+    return this.sessions.reduce((sum, session) => sum + session.pages, 0)
+  }
+
+  /**
+   * Stops the scenario execution. The running sessions are not stopped.
+   */
+  stop(): void {
+    log.debug('stop')
+    this.running = false
+  }
+
+  private async runPhase(phase: ScenarioPhase): Promise<void> {
+    const { name, pages, rampDuration, holdDuration } = phase
+    const steps = Math.ceil(Math.abs(pages - this.pages) / this.tabsPerSession)
+    log.info(
+      `Starting phase "${name}": ${this.pages} -> ${pages} pages, ramp: ${rampDuration}s, hold: ${holdDuration}s`,
+    )
+    this.emit('phase', phase)
+
+    const startTime = Date.now()
+    const stepPeriod = steps && rampDuration ? (rampDuration * 1000) / steps : this.spawnPeriod
+    let step = 0
+    while (this.running) {
+      const last = this.sessions[this.sessions.length - 1]
+      try {
+        if (pages > this.pages) {
+          this.sessions.push(await this.startSession())
+        } else if (last && this.pages - last.pages >= pages) {
+          this.sessions.pop()
+          await this.stopSession(last.id)
+        } else {
+          break
+        }
+      } catch (err) {
+        log.error(`phase "${name}" step ${step} error: ${(err as Error).stack}`)
+        break
+      }
+      step++
+      // Wait for the next step, keeping the ramp linear.
+      const elapsed = Date.now() - startTime
+      if (step < steps && elapsed < step * stepPeriod) {
+        await sleep(step * stepPeriod - elapsed)
+      }
+    }
+    const elapsed = Date.now() - startTime
+    if (rampDuration * 1000 > elapsed) {
+      await this.sleep(rampDuration * 1000 - elapsed)
+    }
+    await this.sleep(holdDuration * 1000)
+  }
+
+  private async sleep(ms: number): Promise<void> {
+    const end = Date.now() + ms
+    while (this.running && Date.now() < end) {
+      await sleep(Math.min(end - Date.now(), 1000))
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import { CDPSession, Protocol } from 'puppeteer-core'
+
+import { logger } from './utils'
+
+const log = logger('webrtcperf:screencast')
+
+/** The screencast video container format. */
+export type ScreencastFormat = 'webm' | 'mp4'
+
+/** The {@link ScreencastRecorder} options. */
+export interface ScreencastRecorderOptions {
+  /** The video container format (default: `webm`). */
+  format?: ScreencastFormat
+  /** The video frame rate (default: 10). */
+  fps?: number
+  /** The captured JPEG frames quality, 0-100 (default: 80). */
+  quality?: number
+  /** The maximum captured frame width (default: the page viewport width). */
+  maxWidth?: number
+  /** The maximum captured frame height (default: the page viewport height). */
+  maxHeight?: number
+}
+
+/** The ffmpeg encoding options for each container format. */
+const ENCODER_OPTIONS: Record<ScreencastFormat, string[]> = {
+  webm: ['-c:v', 'libvpx', '-deadline', 'realtime', '-cpu-used', '8', '-b:v', '1M'],
+  mp4: ['-c:v', 'libx264', '-preset', 'veryfast', '-movflags', '+faststart'],
+}
+
+/**
+ * Records the page visible area as a video, using the CDP
+ * `Page.startScreencast` frames encoded with ffmpeg. The screencast frames are
+ * sent only when the page content changes, so the last frame is repeated in
+ * order to keep a constant frame rate. If ffmpeg can't keep up with the
+ * encoding, the frames are dropped instead of being buffered in memory.
+ */
+export class ScreencastRecorder {
+  readonly filePath: string
+  private readonly cdp: CDPSession
+  private readonly fps: number
+  private readonly quality: number
+  private readonly maxWidth?: number
+  private readonly maxHeight?: number
+  private readonly format: ScreencastFormat
+  private ffmpeg: ChildProcessWithoutNullStreams | null = null
+  private lastFrame: Buffer | null = null
+  private lastFrameTime = 0
+  private frames = 0
+  private droppedFrames = 0
+  private draining = false
+
+  /**
+   * ScreencastRecorder.
+   * @param cdp The page CDP session.
+   * @param filePath The video file path.
+   * @param options The recorder options.
+   */
+  constructor(cdp: CDPSession, filePath: string, options: ScreencastRecorderOptions = {}) {
+    const { format, fps, quality, maxWidth, maxHeight } = options
+    this.cdp = cdp
+    this.filePath = filePath
+    this.format = format || 'webm'
+    this.fps = fps || 10
+    this.quality = quality ?? 80
+    this.maxWidth = maxWidth
+    this.maxHeight = maxHeight
+    this.onFrame = this.onFrame.bind(this)
+  }
+
+  /**
+   * Starts the recording.
+   */
+  async start(): Promise<void> {
+    if (this.ffmpeg) {
+      throw new Error(`Screencast ${this.filePath} already started`)
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    const ffmpeg = spawn('ffmpeg', [
+      '-loglevel',
+      'warning',
+      '-y',
+      '-f',
+      'image2pipe',
+      '-framerate',
+      String(this.fps),
+      '-c:v',
+      'mjpeg',
+      '-i',
+      '-',
+      // The yuv420p pixel format requires even frame sizes.
+      '-vf',
+      'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-pix_fmt',
+      'yuv420p',
+      ...ENCODER_OPTIONS[this.format],
+      '-r',
+      String(this.fps),
+      this.filePath,
+    ])
+    ffmpeg.stderr.on('data', data => log.debug(`ffmpeg ${this.filePath}: ${String(data).trim()}`))
+    ffmpeg.stdin.on('error', err => log.warn(`ffmpeg ${this.filePath} stdin error: ${err.message}`))
+    ffmpeg.once('error', err => log.error(`ffmpeg ${this.filePath} error: ${err.message}`))
+    this.ffmpeg = ffmpeg
+    this.lastFrame = null
+    this.lastFrameTime = 0
+    this.frames = 0
+    this.droppedFrames = 0
+    this.draining = false
+
+    this.cdp.on('Page.screencastFrame', this.onFrame)
+    await this.cdp.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: this.quality,
+      maxWidth: this.maxWidth,
+      maxHeight: this.maxHeight,
+      everyNthFrame: 1,
+    })
+    log.debug(`screencast started: ${this.filePath}`)
+  }
+
+  private onFrame({ data, metadata, sessionId }: Protocol.Page.ScreencastFrameEvent): void {
+    this.cdp.send('Page.screencastFrameAck', { sessionId }).catch(err => {
+      log.debug(`screencastFrameAck error: ${(err as Error).message}`)
+    })
+    const timestamp = metadata.timestamp || Date.now() / 1000
+    this.writeFrames(timestamp)
+    this.lastFrame = Buffer.from(data, 'base64')
+    if (!this.lastFrameTime) {
+      this.lastFrameTime = timestamp
+    }
+  }
+
+  /**
+   * Writes the last received frame until the provided timestamp. When the
+   * ffmpeg input buffer is full, the frames are dropped until it is drained.
+   * @param timestamp The time (s) of the next frame.
+   */
+  private writeFrames(timestamp: number): void {
+    const ffmpeg = this.ffmpeg
+    if (!ffmpeg || !this.lastFrame) return
+    const count = Math.round((timestamp - this.lastFrameTime) * this.fps)
+    this.lastFrameTime += count / this.fps
+    for (let i = 0; i < count; i++) {
+      if (this.draining) {
+        this.droppedFrames += count - i
+        break
+      }
+      this.frames++
+      if (!ffmpeg.stdin.write(this.lastFrame)) {
+        this.draining = true
+        ffmpeg.stdin.once('drain', () => (this.draining = false))
+      }
+    }
+  }
+
+  /**
+   * Stops the recording, waiting for the video file to be written.
+   */
+  async stop(): Promise<void> {
+    const ffmpeg = this.ffmpeg
+    if (!ffmpeg) return
+    this.cdp.off('Page.screencastFrame', this.onFrame)
+    try {
+      await this.cdp.send('Page.stopScreencast')
+    } catch (err) {
+      log.debug(`stopScreencast error: ${(err as Error).message}`)
+    }
+    if (this.lastFrame) {
+      // Write at least one frame for the last received image.
+      this.writeFrames(Math.max(Date.now() / 1000, this.lastFrameTime + 1 / this.fps))
+    }
+    this.ffmpeg = null
+    await new Promise<void>(resolve => {
+      if (ffmpeg.exitCode !== null) return resolve()
+      ffmpeg.once('close', () => resolve())
+      ffmpeg.stdin.end()
+    })
+    if (ffmpeg.exitCode) {
+      throw new Error(`ffmpeg exited with code ${ffmpeg.exitCode} writing ${this.filePath}`)
+    }
+    log.info(`screencast written in ${this.filePath} (${this.frames} frames, ${this.droppedFrames} dropped)`)
+  }
+}
@@ -12,9 +12,10 @@ import { WebSocketServer } from 'ws'
 import zlib from 'zlib'
 
 import { loadConfig } from './config'
-import { Session, SessionParams } from './session'
+import { RoomSignaling, getRoomPage } from './room'
+import { Session, SessionParams, getRestartDelay } from './session'
 import { Stats } from './stats'
-import { logger, runShellCommand } from './utils'
+import { escapeHtml, logger, runShellCommand } from './utils'
 
 const log = logger('webrtcperf:server')
 
@@ -40,6 +41,8 @@ export class Server {
   private app: express.Express
   private server: HttpServer | HttpsServer | null = null
   private wss: WebSocketServer | null = null
+  private readonly roomSignaling = new RoomSignaling()
+  private readonly restartTimers = new Map<number, NodeJS.Timeout>()
 
   /**
    * Server instance.
@@ -84,7 +87,13 @@ export class Server {
 
     this.app.get('/stats', this.getStats.bind(this))
     this.app.get('/collected-stats', this.getCollectedStats.bind(this))
+    this.app.get('/metrics', this.getMetrics.bind(this))
     this.app.get('/screenshot/:sessionId', this.getScreenshot.bind(this))
+    this.app.get('/screenshots', this.getScreenshots.bind(this))
+    this.app.put('/trace/:sessionId', this.putTrace.bind(this))
+    this.app.delete('/trace/:sessionId', this.deleteTrace.bind(this))
+    this.app.put('/screencast/:sessionId', this.putScreencast.bind(this))
+    this.app.delete('/screencast/:sessionId', this.deleteScreencast.bind(this))
     this.app.put('/collected-stats', this.putCollectedStats.bind(this))
     this.app.put('/session', this.putSession.bind(this))
     this.app.put('/sessions', this.putSessions.bind(this))
@@ -96,6 +105,7 @@ export class Server {
     this.app.get('/download/stats', this.getStatsFile.bind(this))
     this.app.get('/download/detailed-stats', this.getDetailedStatsFile.bind(this))
     this.app.get('/empty-page', this.getEmptyPage.bind(this))
+    this.app.get('/room/:roomId', this.getRoomPage.bind(this))
 
     if (this.serverData) {
       log.debug(`using serverData: ${this.serverData}`)
@@ -149,6 +159,26 @@ export class Server {
     }
   }
 
+  /**
+   * GET /metrics endpoint.
+   *
+   * Returns the last collected statistics in Prometheus text format, allowing
+   * Prometheus to scrape the metrics without using a Pushgateway.
+   */
+  private async getMetrics(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    log.debug(`GET /metrics`)
+    try {
+      const register = this.stats.register
+      if (!register) {
+        return next(new Error('Prometheus metrics not available'))
+      }
+      res.set('Content-Type', register.contentType)
+      res.send(await register.metrics())
+    } catch (err) {
+      next(err)
+    }
+  }
+
   /**
    * GET /download/stats endpoint.
    *
@@ -204,17 +234,28 @@ export class Server {
    * Additional query params:
    * - `page`: the page number (starting from `0`) running inside the {@link Session}.
    * - `format`: the image format (`jpeg`, `png`, `webp`). Default: `webp`.
+   * - `latest`: if `true`, it returns the latest periodic screenshot (see
+   *   the {@link Config} `screenshotInterval`) instead of capturing a new one.
    */
   private async getScreenshot(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
     const sessionId = parseInt(req.params.sessionId)
     const pageId = parseInt((req.query.page as string) || '0')
     const format = (req.query.format as string) || 'webp'
-    log.debug(`GET /screenshot/${sessionId} page=${pageId} format=${format}`)
+    const latest = req.query.latest === 'true'
+    log.debug(`GET /screenshot/${sessionId} page=${pageId} format=${format} latest=${latest}`)
     try {
       const session = this.stats.sessions.get(sessionId)
       if (!session) {
         throw new Error(`Session not found: "${sessionId}"`)
       }
+      if (latest) {
+        const screenshot = session.getPagesScreenshots().find(({ index }) => index === session.id + pageId)
+        if (!screenshot) {
+          throw new Error(`Page ${pageId} screenshot not found`)
+        }
+        res.sendFile(screenshot.filePath)
+        return
+      }
       const filePath = await session.pageScreenshot(pageId, format)
       res.sendFile(path.resolve(filePath))
     } catch (err) {
@@ -222,6 +263,184 @@ export class Server {
     }
   }
 
+  /**
+   * GET /screenshots endpoint.
+   *
+   * Returns a contact sheet HTML page with the latest periodic screenshot of
+   * all the running pages (see the {@link Config} `screenshotInterval`),
+   * labelled with the participant name and the screenshot age.
+   * Additional query params:
+   * - `refresh`: the page reload interval in seconds. Default: `10`.
+   * - `width`: the tiles width in pixels. Default: `320`.
+   */
+  private getScreenshots(req: express.Request, res: express.Response): void {
+    const refresh = parseInt((req.query.refresh as string) || '10')
+    const width = parseInt((req.query.width as string) || '320')
+    log.debug(`GET /screenshots refresh=${refresh} width=${width}`)
+    const now = Date.now()
+    const tiles = [...this.stats.sessions.values()]
+      .flatMap(session => session.getPagesScreenshots().map(screenshot => ({ sessionId: session.id, ...screenshot })))
+      .sort((a, b) => a.index - b.index)
+      .map(({ sessionId, index, participantName, timestamp }) => {
+        const pageId = index - sessionId
+        const label = `${participantName || `page ${index + 1}`} (${sessionId}-${pageId})`
+        const age = Math.round((now - timestamp) / 1000)
+        return `<figure>
+<img src="screenshot/${sessionId}?page=${pageId}&latest=true&t=${timestamp}" alt="${escapeHtml(label)}">
+<figcaption>${escapeHtml(label)} <span>${age}s ago</span></figcaption>
+</figure>`
+      })
+    res.send(`<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${refresh > 0 ? `<meta http-equiv="refresh" content="${refresh}">` : ''}
+<title>Screenshots</title>
+<style>
+body { margin: 0; padding: 4px; background: #222; color: #eee; font: 12px sans-serif; }
+main { display: grid; grid-template-columns: repeat(auto-fill, ${width}px); gap: 4px; }
+figure { margin: 0; background: #000; }
+img { display: block; width: 100%; }
+figcaption { padding: 2px 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+span { color: #999; }
+</style>
+</head>
+<body>
+<main>
+${tiles.join('\n') || 'No screenshots available.'}
+</main>
+</body>
+</html>`)
+  }
+
+  /**
+   * PUT /trace/:sessionId endpoint.
+   *
+   * Starts a Chrome performance trace of the page running inside the
+   * {@link Session} identified by `sessionID`.
+   * Additional query params:
+   * - `page`: the page number (starting from `0`) running inside the {@link Session}.
+   */
+  private async putTrace(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    const sessionId = parseInt(req.params.sessionId as string)
+    const pageId = parseInt((req.query.page as string) || '0')
+    log.debug(`PUT /trace/${sessionId} page=${pageId}`)
+    try {
+      const session = this.stats.sessions.get(sessionId)
+      if (!session) {
+        throw new Error(`Session not found: "${sessionId}"`)
+      }
+      const filePath = await session.startPageTrace(pageId)
+      res.json({
+        message: `Trace started`,
+        data: { file: filePath, url: this.getDataUrl(filePath) },
+      })
+    } catch (err) {
+      next(err)
+    }
+  }
+
+  /**
+   * DELETE /trace/:sessionId endpoint.
+   *
+   * Stops the Chrome performance trace of the page running inside the
+   * {@link Session} identified by `sessionID`, returning the trace file path
+   * and its `/data` endpoint url (if the file is inside the {@link Config}
+   * `serverData` path).
+   * Additional query params:
+   * - `page`: the page number (starting from `0`) running inside the {@link Session}.
+   */
+  private async deleteTrace(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    const sessionId = parseInt(req.params.sessionId as string)
+    const pageId = parseInt((req.query.page as string) || '0')
+    log.debug(`DELETE /trace/${sessionId} page=${pageId}`)
+    try {
+      const session = this.stats.sessions.get(sessionId)
+      if (!session) {
+        throw new Error(`Session not found: "${sessionId}"`)
+      }
+      const filePath = await session.stopPageTrace(pageId)
+      res.json({
+        message: `Trace stopped`,
+        data: { file: filePath, url: this.getDataUrl(filePath) },
+      })
+    } catch (err) {
+      next(err)
+    }
+  }
+
+  /**
+   * PUT /screencast/:sessionId endpoint.
+   *
+   * Starts the screencast video recording of the page running inside the
+   * {@link Session} identified by `sessionID`.
+   * Additional query params:
+   * - `page`: the page number (starting from `0`) running inside the {@link Session}.
+   */
+  private async putScreencast(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    const sessionId = parseInt(req.params.sessionId as string)
+    const pageId = parseInt((req.query.page as string) || '0')
+    log.debug(`PUT /screencast/${sessionId} page=${pageId}`)
+    try {
+      const session = this.stats.sessions.get(sessionId)
+      if (!session) {
+        throw new Error(`Session not found: "${sessionId}"`)
+      }
+      const filePath = await session.startPageScreencast(pageId)
+      res.json({
+        message: `Screencast started`,
+        data: { file: filePath, url: this.getDataUrl(filePath) },
+      })
+    } catch (err) {
+      next(err)
+    }
+  }
+
+  /**
+   * DELETE /screencast/:sessionId endpoint.
+   *
+   * Stops the screencast video recording of the page running inside the
+   * {@link Session} identified by `sessionID`, returning the video file path
+   * and its `/data` endpoint url (if the file is inside the {@link Config}
+   * `serverData` path).
+   * Additional query params:
+   * - `page`: the page number (starting from `0`) running inside the {@link Session}.
+   */
+  private async deleteScreencast(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction,
+  ): Promise<void> {
+    const sessionId = parseInt(req.params.sessionId as string)
+    const pageId = parseInt((req.query.page as string) || '0')
+    log.debug(`DELETE /screencast/${sessionId} page=${pageId}`)
+    try {
+      const session = this.stats.sessions.get(sessionId)
+      if (!session) {
+        throw new Error(`Session not found: "${sessionId}"`)
+      }
+      const filePath = await session.stopPageScreencast(pageId)
+      res.json({
+        message: `Screencast stopped`,
+        data: { file: filePath, url: this.getDataUrl(filePath) },
+      })
+    } catch (err) {
+      next(err)
+    }
+  }
+
+  /**
+   * Returns the `/data` endpoint url of a file, if it is inside the
+   * {@link Config} `serverData` path.
+   * @param filePath The file path.
+   */
+  private getDataUrl(filePath: string): string | undefined {
+    if (!this.serverData) return
+    const relativePath = path.relative(path.resolve(this.serverData), filePath)
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) return
+    return `/data/${relativePath}`
+  }
+
   /**
    * PUT /collected-stats endpoint.
    *
@@ -399,6 +618,22 @@ export class Server {
 </html>`)
   }
 
+  /**
+   * GET /room/<roomId> endpoint.
+   *
+   * Returns the loopback test room page. The pages opened with the same
+   * `roomId` send and receive audio and video tracks using a mesh topology,
+   * allowing to run the tests without any external WebRTC service.
+   */
+  private getRoomPage(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    log.debug(`GET /room/${req.params.roomId}`, req.query)
+    const roomId = String(req.params.roomId)
+    if (!/^[\w-]+$/.test(roomId)) {
+      return next(new Error(`invalid roomId: ${roomId}`))
+    }
+    res.send(getRoomPage(roomId, this.serverSecret))
+  }
+
   /**
    * GET /data/* endpoint.
    *
@@ -434,14 +669,35 @@ export class Server {
    * Starts a new {@link Session} instance.
    * @param id The session unique id.
    * @param config The session configuration.
+   * @param restarts The number of restarts already done.
+   * @param crashes The crashes count of the previous session instances.
    */
-  private async startLocalSession(id: number, config: SessionParams): Promise<Session> {
+  private async startLocalSession(id: number, config: SessionParams, restarts = 0, crashes = 0): Promise<Session> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const sessionConfig = loadConfig(undefined, config) as any
     const session = new Session({ ...sessionConfig, id })
+    session.restarts = restarts
+    session.crashes = crashes
     session.once('stop', () => {
-      console.warn(`Session ${id} stopped, reloading...`)
-      setTimeout(this.startLocalSession.bind(this), sessionConfig.spawnPeriod, id, config)
+      this.restartTimers.delete(id)
+      const delay = getRestartDelay(restarts, sessionConfig.spawnPeriod, sessionConfig)
+      if (delay < 0) {
+        log.error(`Session ${id} stopped, max restarts count reached (${restarts})`)
+        if (sessionConfig.sessionRestartFailRun) {
+          this.stats.setRunFailed(`session ${id} reached the max restarts count`)
+        }
+        return
+      }
+      console.warn(`Session ${id} stopped, restarting in ${delay}ms...`)
+      this.restartTimers.set(
+        id,
+        setTimeout(() => {
+          this.restartTimers.delete(id)
+          this.startLocalSession(id, config, restarts + 1, session.crashes).catch(err =>
+            log.error(`Session ${id} restart error: ${(err as Error).stack}`),
+          )
+        }, delay),
+      )
     })
     this.stats.addSession(session)
     try {
@@ -458,6 +714,11 @@ export class Server {
    * @param {number} id The session unique id.
    */
   private async stopLocalSession(id: number): Promise<void> {
+    const restartTimer = this.restartTimers.get(id)
+    if (restartTimer) {
+      clearTimeout(restartTimer)
+      this.restartTimers.delete(id)
+    }
     const session = this.stats.sessions.get(id)
     if (!session) {
       log.warn(`stopLocalSession session ${id} not found`)
@@ -558,6 +819,14 @@ export class Server {
 
             break
           }
+          case 'room': {
+            const roomId = query.get('room') || ''
+            if (!roomId) {
+              throw new Error('room not set')
+            }
+            this.roomSignaling.join(roomId, ws)
+            break
+          }
           default:
             throw new Error(`invalid action: ${action}`)
         }
@@ -597,6 +866,9 @@ export class Server {
    * Stops the {@link Server} instance.
    */
   stop(): void {
+    this.restartTimers.forEach(timer => clearTimeout(timer))
+    this.restartTimers.clear()
+    this.roomSignaling.stop()
     if (this.wss) {
       this.wss.close()
       this.wss = null
@@ -18,6 +18,7 @@ import puppeteer, {
   Metrics,
   Page,
   Permission,
+  Viewport,
 } from 'puppeteer-core'
 import {
   type Interception,
@@ -27,18 +28,41 @@ import {
 import * as sdpTransform from 'sdp-transform'
 import { gunzipSync } from 'zlib'
 
+import { PageAction, PageActionResult, parsePageActions, runPageActions } from './actions'
+import { DeviceProfile, parseDeviceProfile } from './devices'
+import { HarRecorder } from './har'
+import {
+  NetworkEmulation,
+  NetworkEvent,
+  NetworkTraces,
+  applyNetworkEmulation,
+  getNetworkEventEmulation,
+  getNetworkTracesEmulation,
+  loadNetworkTraces,
+  parseNetworkEmulation,
+  parseNetworkEvents,
+} from './network'
 import { RtcStats, rtcStatKey, updateRtcStats } from './rtcstats'
+import { ScreencastFormat, ScreencastRecorder, ScreencastRecorderOptions } from './screencast'
+import { SignalingRecorder } from './signaling'
+import { applyStorageState, getStorageStatePool, loadStorageState } from './storage'
 import { FastStats } from './stats'
 import {
+  BrowserProcessType,
   PeerConnectionExternal,
   PeerConnectionExternalMethod,
+  ProcessStat,
   checkChromeExecutable,
   downloadUrl,
   enabledForSession,
+  getBrowserProcesses,
+  getPagesProcessIds,
   getProcessStats,
+  getProcessesStats,
   getSystemStats,
   hideAuth,
   increaseKey,
+  linearRegressionSlope,
   logger,
   portForwarder,
   resolveIP,
@@ -50,15 +74,6 @@ import {
 
 const log = logger('webrtcperf:session')
 
-/* const metricsTotalDuration = (metrics: Metrics): number => {
-  return (
-    (metrics.LayoutDuration || 0) +
-    (metrics.RecalcStyleCount || 0) +
-    (metrics.ScriptDuration || 0) +
-    (metrics.TaskDuration || 0)
-  )
-} */
-
 declare global {
   let collectPeerConnectionStats: () => Promise<{
     stats: RtcStats[]
@@ -72,6 +87,7 @@ declare global {
     peerConnectionsDisconnected: number
     peerConnectionsFailed: number
     peerConnectionsClosed: number
+    iceRestarts: number
   }>
   let collectAudioEndToEndStats: () => {
     delay: number
@@ -83,6 +99,7 @@ declare global {
   }
   let collectVideoEndToEndNetworkDelayStats: () => number
   let collectCpuPressure: () => number
+  let collectNetworkRecoveryStats: () => { connectedTime?: number; bitrateTime?: number } | null
   let collectCustomMetrics: () => Promise<Record<string, number | string>>
   let getParticipantName: () => string
 }
@@ -113,6 +130,8 @@ export interface SessionParams {
   windowHeight: number
   /** The browser device scale factor. */
   deviceScaleFactor: number
+  /** The device emulation profile name or JSON5 values. */
+  deviceProfile?: string
   /**
    * If unset, the browser will run in headless mode.
    * When running on Linux, set to a valid X display variable (e.g. `:0`).
@@ -138,6 +157,9 @@ export interface SessionParams {
   tabsPerSession: number
   spawnPeriod: number
   statsInterval: number
+  statsWarmup?: number
+  /** The JS heap growth rate calculation window in seconds. */
+  jsHeapGrowthWindow?: number
   getUserMediaOverride: string
   disabledVideoCodecs: string
   getDisplayMediaOverride: string
@@ -149,9 +171,53 @@ export interface SessionParams {
   showPageLog: boolean
   pageLogFilter: string
   pageLogPath: string
+  /** The directory exposed by the server `/data` endpoint. */
+  serverData?: string
+  /** The sessions traced by the `chromeTraceWindow` and the alert rules. */
+  chromeTraceSessions?: string
+  /** The Chrome trace time window (`start-end`, seconds since the test start). */
+  chromeTraceWindow?: string
+  /** The Chrome trace categories, comma separated. */
+  chromeTraceCategories?: string
+  /** The sessions recording the pages network requests in HAR format. */
+  harSessions?: boolean | string | number
+  /** The HAR recorded requests url filter (regular expression). */
+  harUrlFilter?: string
+  /** The signaling WebSocket url filter (regular expression). */
+  signalingUrlFilter?: string
+  /** The signaling messages id JSON path. */
+  signalingIdPath?: string
+  /** The sessions logging the signaling WebSocket frames. */
+  signalingLogSessions?: boolean | string | number
+  /** The signaling logged frames payload filter (regular expression). */
+  signalingLogFilter?: string
+  /** The sessions recording the pages screencast video. */
+  screencastSessions?: boolean | string | number
+  /** If greater than 0, the screencast is recorded only when an alert rule fails, for this duration (s). */
+  screencastAlertDuration?: number
+  /** The screencast video format (`webm` or `mp4`). */
+  screencastFormat?: string
+  /** The screencast video frame rate. */
+  screencastFps?: number
+  /** The screencast frames JPEG quality (0-100). */
+  screencastQuality?: number
+  /** The periodic pages screenshot interval (s); 0 disables the capture. */
+  screenshotInterval?: number
+  /** The screenshots kept for each page; 0 keeps all the screenshots. */
+  screenshotRetention?: number
   userAgent: string
   id: number
   throttleIndex: number
+  /** The CDP network emulation settings (JSON5 string). */
+  networkEmulation?: string
+  /** The network trace file path or JSON5 settings. */
+  networkTrace?: string
+  /** The scheduled network events (JSON5 string). */
+  networkEvents?: string
+  /** The page action steps (JSON5 string). */
+  pageActions?: string
+  /** The participant role name. */
+  role?: string
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   evaluateAfter?: any[]
   exposedFunctions?: string
@@ -162,6 +228,8 @@ export interface SessionParams {
   downloadResponses: string
   extraCSS: string
   cookies: string
+  /** The browser storage state files directory or file path. */
+  storageStatePath?: string
   overridePermissions: string
   debuggingPort: number
   debuggingAddress: string
@@ -169,9 +237,51 @@ export interface SessionParams {
   maxVideoDecoders: number
   maxVideoDecodersAt: number
   incognito: boolean
+  /** The browser contexts isolation (`shared`, `tab` or the tabs count of each context). */
+  contextIsolation?: string
   serverPort: number
   serverSecret: string
   serverUseHttps: boolean
+  sessionMaxRestarts?: number
+  sessionRestartBackoff?: number
+  sessionRestartMaxDelay?: number
+}
+
+/** The session and page restart policy. */
+export interface RestartPolicy {
+  /** The maximum restarts count, if negative the restarts are unlimited. */
+  sessionMaxRestarts?: number
+  /** The exponential backoff factor. */
+  sessionRestartBackoff?: number
+  /** The maximum restart delay in seconds. */
+  sessionRestartMaxDelay?: number
+}
+
+/** A page periodic screenshot. */
+export interface PageScreenshot {
+  /** The page index. */
+  index: number
+  /** The page participant name. */
+  participantName: string
+  /** The screenshot file path. */
+  filePath: string
+  /** The capture time (ms). */
+  timestamp: number
+}
+
+/**
+ * Returns the delay before the next restart of a session or page.
+ * @param restarts The number of restarts already done.
+ * @param baseDelay The first restart delay in ms.
+ * @param policy The restart policy.
+ * @return The delay in ms, or -1 if the maximum restarts count was reached.
+ */
+export function getRestartDelay(restarts: number, baseDelay: number, policy: RestartPolicy): number {
+  const { sessionMaxRestarts = -1, sessionRestartBackoff = 1, sessionRestartMaxDelay = 60 } = policy
+  if (sessionMaxRestarts >= 0 && restarts >= sessionMaxRestarts) {
+    return -1
+  }
+  return Math.round(Math.min(baseDelay * Math.pow(sessionRestartBackoff, restarts), sessionRestartMaxDelay * 1000))
 }
 
 export type CustomUrlHandlerFn = (params: {
@@ -195,6 +305,7 @@ export class Session extends EventEmitter {
   private readonly windowWidth: number
   private readonly windowHeight: number
   private readonly deviceScaleFactor: number
+  private readonly deviceProfile: DeviceProfile | null = null
   private readonly display: string
   /* private readonly audioRedForOpus: boolean */
   public readonly videoPath?: { video: string; audio: string }
@@ -222,6 +333,38 @@ export class Session extends EventEmitter {
   private readonly showPageLog: boolean
   private readonly pageLogFilter: string
   private readonly pageLogPath: string
+  private readonly serverData: string
+  /** If the session pages can be traced by the `chromeTraceWindow` and the alert rules. */
+  readonly chromeTraceEnabled: boolean
+  private readonly chromeTraceWindow: string
+  private readonly chromeTraceCategories: string[]
+  /** The trace file paths of the pages being traced. */
+  private readonly pagesTraces = new Map<number, string>()
+  private readonly traceTimers = new Set<NodeJS.Timeout>()
+  private readonly harEnabled: boolean
+  private readonly harUrlFilter: string
+  /** The HAR recorders of each page. */
+  private readonly pagesHar = new Map<number, { recorder: HarRecorder; filePath: string }>()
+  private readonly signalingUrlFilter: string
+  private readonly signalingIdPath: string
+  private readonly signalingLogEnabled: boolean
+  private readonly signalingLogFilter: string
+  /** The signaling WebSocket recorders of each page. */
+  private readonly pagesSignaling = new Map<number, SignalingRecorder>()
+  /** If the session pages screencast video is recorded. */
+  readonly screencastEnabled: boolean
+  private readonly screencastAlertDuration: number
+  private readonly screencastOptions: ScreencastRecorderOptions
+  private readonly screencastTimers = new Set<NodeJS.Timeout>()
+  /** The screencast recorders of the pages being recorded. */
+  private readonly pagesScreencasts = new Map<number, ScreencastRecorder>()
+  private readonly screenshotInterval: number
+  private readonly screenshotRetention: number
+  private screenshotTimer?: NodeJS.Timeout
+  /** The latest periodic screenshot of each page. */
+  private readonly pagesScreenshots = new Map<number, PageScreenshot>()
+  /** The retained screenshot files of each page, from the oldest. */
+  private readonly pagesScreenshotFiles = new Map<number, string[]>()
   private readonly userAgent: string
   private readonly evaluateAfter: {
     // eslint-disable-next-line
@@ -247,6 +390,8 @@ export class Session extends EventEmitter {
   private readonly downloadResponses: { urlPattern: RegExp; output: string; append?: boolean }[] = []
   private readonly extraCSS: string
   private readonly cookies: CookieParam[] = []
+  /** The storage state files of the login identities. */
+  private readonly storageStatePool: string[] = []
   private readonly overridePermissions: Permission[] = []
   private readonly debuggingPort: number
   private readonly debuggingAddress: string
@@ -260,13 +405,42 @@ export class Session extends EventEmitter {
 
   private running = false
   private browser?: Browser
-  private context?: BrowserContext
+  /** The number of tabs sharing each browser context, 0 if all the tabs share the same context. */
+  private readonly contextTabs: number
+  /** The browser context of each tabs group, with the indexes of its open pages. */
+  private readonly contexts = new Map<number, { context: Promise<BrowserContext>; pages: Set<number> }>()
   private stopPortForwarder?: () => void
 
   /** The numeric id assigned to the session. */
   readonly id: number
   /** The throttle configuration index assigned to the session. */
   readonly throttleIndex: number
+  /** The participant role name assigned to the session. */
+  readonly role: string
+  /** The CDP network emulation settings applied to the pages. */
+  networkEmulation: NetworkEmulation | null = null
+  /** The network emulation settings without the active network events. */
+  private networkBaseEmulation: NetworkEmulation | null = null
+  private readonly networkTraces: NetworkTraces | null = null
+  private networkTraceTimer?: NodeJS.Timeout
+  private readonly networkEvents: NetworkEvent[] = []
+  private readonly activeNetworkEvents = new Set<NetworkEvent>()
+  private readonly networkEventTimers = new Set<NodeJS.Timeout>()
+  private readonly pageActions: PageAction[] = []
+  /** The executed page action steps results of each page. */
+  private readonly pagesActionsResults = new Map<number, PageActionResult[]>()
+  /** The browser version. */
+  browserVersion = ''
+  /** The stats warm-up time in seconds. */
+  readonly statsWarmup: number
+  /** The load timestamp of each page. */
+  private readonly pagesLoadTime = new Map<number, number>()
+  /** The session and page restarts count. */
+  restarts = 0
+  /** The browser and page crashes count. */
+  crashes = 0
+  private readonly restartPolicy: RestartPolicy
+  private readonly pagesRestarts = new Map<number, number>()
   /** The test page url. */
   readonly url: string
   /** The url query. */
@@ -309,6 +483,12 @@ export class Session extends EventEmitter {
   readonly httpResourcesStats = new Map<number, { recvBytes: number; recvLatency: FastStats }>()
   /** The browser opened pages metrics. */
   readonly pagesMetrics = new Map<number, Metrics>()
+  /** The renderer process pid of each page, mapped when the page is loaded or its process exits. */
+  private readonly pagesPid = new Map<number, number>()
+  /** The JS heap growth rate calculation window in seconds. */
+  readonly jsHeapGrowthWindow: number
+  /** The JS heap used size samples (timestamp, MB) of each page. */
+  private readonly pagesHeapSamples = new Map<number, { start: number; samples: [number, number][] }>()
   /** The page warnings count. */
   pageWarnings = 0
   /** The page errors count. */
@@ -326,6 +506,7 @@ export class Session extends EventEmitter {
     windowWidth,
     windowHeight,
     deviceScaleFactor,
+    deviceProfile,
     display,
     /* audioRedForOpus, */
     url,
@@ -343,6 +524,8 @@ export class Session extends EventEmitter {
     tabsPerSession,
     spawnPeriod,
     statsInterval,
+    statsWarmup,
+    jsHeapGrowthWindow,
     getUserMediaOverride,
     disabledVideoCodecs,
     getDisplayMediaOverride,
@@ -354,9 +537,31 @@ export class Session extends EventEmitter {
     showPageLog,
     pageLogFilter,
     pageLogPath,
+    serverData,
+    chromeTraceSessions,
+    chromeTraceWindow,
+    chromeTraceCategories,
+    harSessions,
+    harUrlFilter,
+    signalingUrlFilter,
+    signalingIdPath,
+    signalingLogSessions,
+    signalingLogFilter,
+    screencastSessions,
+    screencastAlertDuration,
+    screencastFormat,
+    screencastFps,
+    screencastQuality,
+    screenshotInterval,
+    screenshotRetention,
     userAgent,
     id,
     throttleIndex,
+    networkEmulation,
+    networkTrace,
+    networkEvents,
+    pageActions,
+    role,
     evaluateAfter,
     exposedFunctions,
     scriptParams,
@@ -366,6 +571,7 @@ export class Session extends EventEmitter {
     downloadResponses,
     extraCSS,
     cookies,
+    storageStatePath,
     overridePermissions,
     debuggingPort,
     debuggingAddress,
@@ -373,9 +579,13 @@ export class Session extends EventEmitter {
     maxVideoDecoders,
     maxVideoDecodersAt,
     incognito,
+    contextIsolation,
     serverPort,
     serverSecret,
     serverUseHttps,
+    sessionMaxRestarts,
+    sessionRestartBackoff,
+    sessionRestartMaxDelay,
   }: SessionParams) {
     super()
     log.debug('constructor', { id })
@@ -386,6 +596,13 @@ export class Session extends EventEmitter {
     this.windowWidth = windowWidth || 1920
     this.windowHeight = windowHeight || 1080
     this.deviceScaleFactor = deviceScaleFactor || 1
+    if (deviceProfile) {
+      try {
+        this.deviceProfile = parseDeviceProfile(deviceProfile)
+      } catch (err: unknown) {
+        log.error(`error parsing deviceProfile: ${(err as Error).stack}`)
+      }
+    }
     this.debuggingPort = debuggingPort || 0
     this.debuggingAddress = debuggingAddress || ''
     this.display = display
@@ -411,6 +628,8 @@ export class Session extends EventEmitter {
     assert(this.tabsPerSession >= 1, 'tabsPerSession should be >= 1')
     this.spawnPeriod = spawnPeriod || 1000
     this.statsInterval = statsInterval || 10
+    this.statsWarmup = statsWarmup || 0
+    this.jsHeapGrowthWindow = jsHeapGrowthWindow || 300
     if (getUserMediaOverride) {
       try {
         this.getUserMediaOverride = JSON5.parse(getUserMediaOverride)
@@ -450,16 +669,71 @@ export class Session extends EventEmitter {
     this.showPageLog = showPageLog
     this.pageLogFilter = pageLogFilter
     this.pageLogPath = pageLogPath
+    this.serverData = serverData || ''
+    this.chromeTraceEnabled = enabledForSession(this.id, chromeTraceSessions || false)
+    this.chromeTraceWindow = chromeTraceWindow || ''
+    this.chromeTraceCategories = (chromeTraceCategories || '')
+      .split(',')
+      .map(c => c.trim())
+      .filter(c => c)
+    this.harEnabled = enabledForSession(this.id, harSessions || false)
+    this.harUrlFilter = harUrlFilter || ''
+    this.signalingUrlFilter = signalingUrlFilter || ''
+    this.signalingIdPath = signalingIdPath || ''
+    this.signalingLogEnabled = enabledForSession(this.id, signalingLogSessions || false)
+    this.signalingLogFilter = signalingLogFilter || ''
+    this.screencastEnabled = enabledForSession(this.id, screencastSessions || false)
+    this.screencastAlertDuration = screencastAlertDuration || 0
+    this.screencastOptions = {
+      format: (screencastFormat || 'webm') as ScreencastFormat,
+      fps: screencastFps,
+      quality: screencastQuality,
+    }
+    this.screenshotInterval = screenshotInterval || 0
+    this.screenshotRetention = screenshotRetention || 0
     this.userAgent = userAgent
     this.randomAudioPeriod = randomAudioPeriod
     this.maxVideoDecoders = maxVideoDecoders
     this.maxVideoDecodersAt = maxVideoDecodersAt
     this.incognito = incognito
+    // The storage state identities require a browser context for each tab.
+    const isolation = contextIsolation || (incognito || storageStatePath ? 'tab' : 'shared')
+    this.contextTabs = isolation === 'shared' ? 0 : isolation === 'tab' ? 1 : parseInt(isolation) || 1
     this.serverPort = serverPort
     this.serverSecret = serverSecret
     this.serverUseHttps = serverUseHttps
 
     this.throttleIndex = throttleIndex
+    if (networkEmulation) {
+      try {
+        this.networkEmulation = this.networkBaseEmulation = parseNetworkEmulation(networkEmulation)
+      } catch (err: unknown) {
+        log.error(`error parsing networkEmulation: ${(err as Error).stack}`)
+      }
+    }
+    if (networkTrace) {
+      try {
+        this.networkTraces = loadNetworkTraces(networkTrace)
+      } catch (err: unknown) {
+        log.error(`error loading networkTrace: ${(err as Error).stack}`)
+      }
+    }
+    if (networkEvents) {
+      try {
+        this.networkEvents = parseNetworkEvents(networkEvents)
+      } catch (err: unknown) {
+        log.error(`error parsing networkEvents: ${(err as Error).stack}`)
+      }
+    }
+    if (pageActions) {
+      try {
+        this.pageActions = parsePageActions(pageActions)
+      } catch (err: unknown) {
+        log.error(`error parsing pageActions: ${(err as Error).stack}`)
+      }
+    }
+    this.role = role || ''
+    this.restartPolicy = { sessionMaxRestarts, sessionRestartBackoff, sessionRestartMaxDelay }
     this.evaluateAfter = evaluateAfter || []
     this.exposedFunctions = exposedFunctions || {}
     if (scriptParams) {
@@ -533,6 +807,13 @@ export class Session extends EventEmitter {
       }
     }
 
+    if (storageStatePath) {
+      this.storageStatePool = getStorageStatePool(storageStatePath)
+      if (!this.storageStatePool.length) {
+        log.warn(`No storage state files found in: ${storageStatePath}`)
+      }
+    }
+
     if (overridePermissions) {
       this.overridePermissions = overridePermissions
         .split(',')
@@ -640,14 +921,7 @@ export class Session extends EventEmitter {
       try {
         this.browser = await puppeteer.connect({
           browserURL: this.chromiumUrl,
-          defaultViewport: {
-            width: this.windowWidth,
-            height: this.windowHeight,
-            deviceScaleFactor: this.deviceScaleFactor,
-            isMobile: false,
-            hasTouch: false,
-            isLandscape: false,
-          },
+          defaultViewport: this.defaultViewport,
         })
       } catch (err) {
         log.error(`${this.id} browser connect error: ${(err as Error).stack}`)
@@ -693,19 +967,13 @@ export class Session extends EventEmitter {
           env,
           dumpio: this.enableBrowserLogging,
           // devtools: true,
-          defaultViewport: {
-            width: this.windowWidth,
-            height: this.windowHeight,
-            deviceScaleFactor: this.deviceScaleFactor,
-            isMobile: false,
-            hasTouch: false,
-            isLandscape: false,
-          },
+          defaultViewport: this.defaultViewport,
           ignoreDefaultArgs,
           args,
         })
         const version = await this.browser.version()
         log.debug(`[session ${this.id}] Using chrome version: ${version}`)
+        this.browserVersion = version
       } catch (err) {
         log.error(`[session ${this.id}] Browser launch error: ${(err as Error).stack}`)
         return this.stop()
@@ -718,8 +986,14 @@ export class Session extends EventEmitter {
       this.stopPortForwarder = await portForwarder(this.debuggingPort + this.id, this.debuggingAddress)
     }
 
+    this.startNetworkTraces()
+    this.startNetworkEvents()
+    this.startChromeTraceWindow()
+    this.startScreenshots()
+
     this.browser.once('disconnected', () => {
-      log.debug('browser disconnected')
+      log.warn(`[session ${this.id}] browser disconnected`)
+      this.crashes++
       return this.stop()
     })
 
@@ -805,22 +1079,25 @@ export class Session extends EventEmitter {
 
     log.debug(`opening page ${index} (session: ${this.id} tab: ${tabIndex}): ${hideAuth(url)}`)
 
-    if (this.incognito) {
-      this.context = await this.browser.createBrowserContext()
-    } else {
-      this.context = this.browser.defaultBrowserContext()
-    }
+    const context = await this.getPageContext(index, tabIndex)
 
     if (this.overridePermissions.length) {
-      await this.context.overridePermissions(new URL(url).origin, this.overridePermissions)
+      await context.overridePermissions(new URL(url).origin, this.overridePermissions)
     }
 
-    const page = await this.getNewPage(tabIndex)
+    let page: Page
+    try {
+      page = await this.getNewPage(context, tabIndex)
+    } catch (err) {
+      await this.releasePageContext(index)
+      throw err
+    }
 
     await page.setBypassCSP(true)
 
-    if (this.userAgent) {
-      await page.setUserAgent(this.userAgent)
+    const userAgent = this.deviceProfile?.userAgent || this.userAgent
+    if (userAgent) {
+      await page.setUserAgent(userAgent)
     }
 
     await Promise.all(
@@ -837,12 +1114,14 @@ window.WEBRTC_PERF_URL = "${hideAuth(url)}";
 window.WEBRTC_PERF_SESSION = ${this.id};
 window.WEBRTC_PERF_TAB_INDEX = ${tabIndex};
 window.WEBRTC_PERF_INDEX = ${index};
+window.WEBRTC_PERF_ROLE = "${this.role}";
 window.STATS_INTERVAL = ${this.statsInterval};
 window.VIDEO_WIDTH = ${this.videoWidth};
 window.VIDEO_HEIGHT = "${this.videoHeight}";
 window.VIDEO_FRAMERATE = ${this.videoFramerate};
 window.LOCAL_STORAGE = '${this.localStorage ? JSON.stringify(this.localStorage) : ''}';
 window.RANDOM_AUDIO_PERIOD = ${this.randomAudioPeriod};
+window.NETWORK_EVENTS = ${this.networkEvents.length > 0};
 try {
   window.PARAMS = JSON.parse('${JSON.stringify(this.scriptParams)}' || '{}');
 } catch (err) {}
@@ -911,6 +1190,7 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       'scripts/playout-delay-hint.js',
       'scripts/save-tracks.js',
       'scripts/pressure-stats.js',
+      'scripts/network-events.js',
     ]) {
       if (name.startsWith('http')) {
         log.debug(`loading ${name} script`)
@@ -974,11 +1254,47 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       }
     })
 
+    page.on('error', err => {
+      log.error(`page ${index + 1} crashed: ${err.message}`)
+      this.crashes++
+      // Write the running trace before closing the crashed page.
+      const traceStopped = this.pagesTraces.has(index)
+        ? this.stopPageTrace(index - this.id).catch(err =>
+            log.error(`[session ${this.id}] stopPageTrace error: ${(err as Error).stack}`),
+          )
+        : Promise.resolve()
+      traceStopped
+        .then(() => page.close())
+        .catch(err => log.error(`page close after crash error: ${(err as Error).stack}`))
+    })
+
     page.once('close', () => {
       log.debug(`page ${index + 1} closed`)
+      if (this.pagesTraces.has(index)) {
+        this.stopPageTrace(index - this.id).catch(err =>
+          log.error(`[session ${this.id}] stopPageTrace error: ${(err as Error).stack}`),
+        )
+      }
+      this.releasePageContext(index).catch(err =>
+        log.error(`[session ${this.id}] releasePageContext error: ${(err as Error).stack}`),
+      )
       this.pages.delete(index)
+      this.pagesLoadTime.delete(index)
       this.httpResourcesStats.delete(index)
       this.pagesMetrics.delete(index)
+      this.pagesPid.delete(index)
+      this.pagesHeapSamples.delete(index)
+      this.pagesScreenshots.delete(index)
+      this.pagesScreenshotFiles.delete(index)
+      this.pagesActionsResults.delete(index)
+      this.writePageHar(index).catch(err => log.error(`writePageHar error: ${(err as Error).stack}`))
+      this.pagesSignaling.get(index)?.close()
+      this.pagesSignaling.delete(index)
+      if (this.pagesScreencasts.has(index)) {
+        this.stopPageScreencast(index - this.id).catch(err =>
+          log.error(`[session ${this.id}] stopPageScreencast error: ${(err as Error).stack}`),
+        )
+      }
 
       if (saveFile) {
         saveFile.close().catch(err => {
@@ -988,9 +1304,18 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       }
 
       if (this.browser && this.running) {
+        const restarts = this.pagesRestarts.get(index) || 0
+        const delay = getRestartDelay(restarts, 1000, this.restartPolicy)
+        if (delay < 0) {
+          log.error(`page ${index + 1} reached the max restarts count (${restarts}), stopping session`)
+          this.stop().catch(err => log.error(`session stop error: ${(err as Error).stack}`))
+          return
+        }
+        this.pagesRestarts.set(index, restarts + 1)
+        this.restarts++
         setTimeout(
-          () => this.openPage(index).catch(err => log.error(`openPage after close error: ${(err as Error).stack}`)),
-          1000,
+          () => this.openPage(tabIndex).catch(err => log.error(`openPage after close error: ${(err as Error).stack}`)),
+          delay,
         )
       }
     })
@@ -1004,6 +1329,18 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       bypass: true,
     })
 
+    // Network emulation.
+    if (this.networkEmulation) {
+      await applyNetworkEmulation(pageCDPSession, this.networkEmulation)
+    }
+
+    // CPU throttling.
+    if (this.deviceProfile?.cpuThrottlingRate && this.deviceProfile.cpuThrottlingRate > 1) {
+      await pageCDPSession.send('Emulation.setCPUThrottlingRate', {
+        rate: this.deviceProfile.cpuThrottlingRate,
+      })
+    }
+
     const interceptManager = new RequestInterceptionManager(pageCDPSession, {
       onError: error => {
         log.error('Request interception error:', error)
@@ -1198,13 +1535,18 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       },
     )
 
-    /* pageCDPSession.on('Network.webSocketFrameSent', ({requestId, timestamp, response}) => {
-      log('Network.webSocketFrameSent', requestId, timestamp, response.payloadData)
-    })
-
-    pageCDPSession.on('Network.webSocketFrameReceived', ({requestId, timestamp, response}) => {
-      log('Network.webSocketFrameReceived', requestId, timestamp, response.payloadData)
-    }) */
+    // Signaling WebSocket stats.
+    this.pagesSignaling.set(
+      index,
+      new SignalingRecorder(pageCDPSession, {
+        urlFilter: this.signalingUrlFilter,
+        idPath: this.signalingIdPath,
+        logPath: this.signalingLogEnabled
+          ? path.resolve(this.logsDirPath, `signaling-${index}-${Date.now()}.jsonl`)
+          : undefined,
+        logFilter: this.signalingLogFilter,
+      }),
+    )
 
     // Simulate keypress
     await page.exposeFunction('keypressText', async (selector: string, text: string, delay = 20) => {
@@ -1292,6 +1634,17 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       }
     }
 
+    // load the login identity storage state
+    if (this.storageStatePool.length) {
+      const filePath = this.storageStatePool[index % this.storageStatePool.length]
+      try {
+        log.debug(`Page ${index + 1} using storage state: ${filePath}`)
+        await applyStorageState(page, await loadStorageState(filePath))
+      } catch (err) {
+        log.error(`Load storage state ${filePath} error: ${(err as Error).stack}`)
+      }
+    }
+
     // Page logs and errors.
     if (this.pageLogPath) {
       try {
@@ -1374,6 +1727,14 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       resourcesStats.recvLatency.push(timestamp - request.timestamp)
     })
 
+    // HAR recording.
+    if (this.harEnabled) {
+      this.pagesHar.set(index, {
+        recorder: new HarRecorder(pageCDPSession, `page_${index}`, hideAuth(url), this.harUrlFilter),
+        filePath: path.resolve(this.logsDirPath, `har-${index}-${Date.now()}.har`),
+      })
+    }
+
     // open the page url
     try {
       await page.goto(url, {
@@ -1388,6 +1749,27 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
 
     // add to pages map
     this.pages.set(index, page)
+    this.pagesLoadTime.set(index, Date.now())
+
+    if (this.browser.process()) {
+      this.updatePagesPid([index]).catch(err =>
+        log.error(`[session ${this.id}] updatePagesPid error: ${(err as Error).stack}`),
+      )
+    }
+
+    if (this.screencastEnabled && !this.screencastAlertDuration) {
+      this.startPageScreencast(tabIndex).catch(err =>
+        log.error(`[session ${this.id}] startPageScreencast error: ${(err as Error).stack}`),
+      )
+    }
+
+    if (this.pageActions.length) {
+      const results: PageActionResult[] = []
+      this.pagesActionsResults.set(index, results)
+      runPageActions(page, this.pageActions, { s: this.id, t: tabIndex, i: index }, result =>
+        results.push(result),
+      ).catch(err => log.error(`[session ${this.id}] page ${index + 1} ${(err as Error).message}`))
+    }
 
     log.debug(`Page ${index + 1} "${url}" loaded`)
 
@@ -1400,10 +1782,248 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     }
   }
 
-  private async getNewPage(tabIndex: number): Promise<Page> {
+  /**
+   * Maps the pages to their renderer processes.
+   * @param indexes The page indexes.
+   */
+  private async updatePagesPid(indexes: number[]): Promise<void> {
+    const pages = indexes.map(index => [index, this.pages.get(index)]).filter(([, page]) => page) as [number, Page][]
+    if (!this.browser || !pages.length) return
+    const pids = await getPagesProcessIds(
+      this.browser,
+      pages.map(([, page]) => page),
+    )
+    pages.forEach(([index, page], i) => {
+      if (this.pages.get(index) !== page) return
+      const pid = pids[i]
+      if (pid) {
+        log.debug(`[session ${this.id}] page ${index + 1} renderer pid: ${pid}`)
+        this.pagesPid.set(index, pid)
+      } else {
+        this.pagesPid.delete(index)
+      }
+    })
+  }
+
+  /**
+   * Adds a JS heap used size sample and calculates the page heap growth rate.
+   * @param index The page index.
+   * @param value The JS heap used size (MB).
+   * @return The growth rate (MB/hour) or undefined if the page has been
+   * running for less than `jsHeapGrowthWindow`.
+   */
+  private updateHeapGrowth(index: number, value: number): number | undefined {
+    const now = Date.now()
+    let heapSamples = this.pagesHeapSamples.get(index)
+    if (!heapSamples) {
+      heapSamples = { start: now, samples: [] }
+      this.pagesHeapSamples.set(index, heapSamples)
+    }
+    const { start, samples } = heapSamples
+    samples.push([now, value])
+    while (samples.length && samples[0][0] < now - this.jsHeapGrowthWindow * 1000) {
+      samples.shift()
+    }
+    if (now - start < this.jsHeapGrowthWindow * 1000) {
+      return
+    }
+    return linearRegressionSlope(samples.map(([t, v]) => [t / 3600000, v]))
+  }
+
+  /**
+   * Updates the network emulation settings of all the session pages.
+   * @param values The network emulation settings.
+   */
+  async setNetworkEmulation(values: NetworkEmulation | null): Promise<void> {
+    log.debug(`[session ${this.id}] setNetworkEmulation`, values)
+    this.networkEmulation = values
+    await Promise.all(
+      [...this.pages.values()].map(async page => {
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await applyNetworkEmulation((page as any)._client() as CDPSession, values || {})
+        } catch (err) {
+          log.error(`[session ${this.id}] setNetworkEmulation error: ${(err as Error).stack}`)
+        }
+      }),
+    )
+  }
+
+  /**
+   * Starts replaying the network traces, updating the network emulation
+   * settings every second.
+   */
+  private startNetworkTraces(): void {
+    const traces = this.networkTraces
+    if (!traces) {
+      return
+    }
+    const base = this.networkBaseEmulation
+    const startTime = Date.now()
+    this.networkEmulation = this.networkBaseEmulation = getNetworkTracesEmulation(traces, 0, base)
+    this.networkTraceTimer = setInterval(() => {
+      this.networkBaseEmulation = getNetworkTracesEmulation(traces, (Date.now() - startTime) / 1000, base)
+      this.updateNetworkEmulation()
+    }, 1000)
+  }
+
+  /**
+   * Applies the base network emulation settings merged with the active
+   * network events settings, if changed.
+   */
+  private updateNetworkEmulation(): void {
+    let values = this.networkBaseEmulation
+    for (const event of this.activeNetworkEvents) {
+      values = { ...values, ...getNetworkEventEmulation(event) }
+    }
+    if (JSON.stringify(values) !== JSON.stringify(this.networkEmulation)) {
+      this.setNetworkEmulation(values).catch(err =>
+        log.error(`[session ${this.id}] updateNetworkEmulation error: ${(err as Error).stack}`),
+      )
+    }
+  }
+
+  /**
+   * Schedules the network events targeting the session. The events are
+   * scheduled relative to the test start time; the past events are skipped.
+   */
+  private startNetworkEvents(): void {
+    const elapsed = Date.now() - this.startTimestamp
+    this.networkEvents.forEach((event, i) => {
+      const { at, sessions, probability } = event
+      if (sessions !== undefined && !enabledForSession(this.id, sessions)) return
+      if (probability !== undefined && Math.random() >= probability) return
+      const [min, max] = Array.isArray(at) ? at : [at, at]
+      const delay = (min + Math.random() * (max - min)) * 1000 - elapsed
+      if (delay < 0) {
+        log.debug(`[session ${this.id}] network event ${i} skipped: already started`)
+        return
+      }
+      const timer = setTimeout(() => {
+        this.networkEventTimers.delete(timer)
+        this.startNetworkEvent(event, i).catch(err =>
+          log.error(`[session ${this.id}] network event ${i} error: ${(err as Error).stack}`),
+        )
+      }, delay)
+      this.networkEventTimers.add(timer)
+    })
+  }
+
+  /**
+   * Starts a network event, notifying the pages in order to measure the
+   * recovery time after the event end.
+   * @param event The network event.
+   * @param index The network event index.
+   */
+  private async startNetworkEvent(event: NetworkEvent, index: number): Promise<void> {
+    const { type, duration, recoveryTimeout } = event
+    log.info(`[session ${this.id}] network event ${index} ${type} started (duration: ${duration}s)`)
+    await this.evaluatePages('webrtcperf.networkEventStart()')
+    this.activeNetworkEvents.add(event)
+    this.updateNetworkEmulation()
+    const timer = setTimeout(() => {
+      this.networkEventTimers.delete(timer)
+      log.info(`[session ${this.id}] network event ${index} ${type} ended`)
+      this.activeNetworkEvents.delete(event)
+      this.updateNetworkEmulation()
+      this.evaluatePages(`webrtcperf.networkEventEnd(${recoveryTimeout || 60})`).catch(err =>
+        log.error(`[session ${this.id}] network event ${index} error: ${(err as Error).stack}`),
+      )
+    }, duration * 1000)
+    this.networkEventTimers.add(timer)
+  }
+
+  /**
+   * Evaluates an expression in all the session pages, ignoring the errors.
+   * @param expression The expression to evaluate.
+   */
+  private async evaluatePages(expression: string): Promise<void> {
+    await Promise.allSettled([...this.pages.values()].map(page => page.evaluate(expression)))
+  }
+
+  /**
+   * The browser default viewport, using the device profile values if set.
+   */
+  private get defaultViewport(): Viewport {
+    if (this.deviceProfile) {
+      const { width, height, deviceScaleFactor, isMobile, hasTouch, isLandscape } = this.deviceProfile
+      return { width, height, deviceScaleFactor, isMobile, hasTouch, isLandscape }
+    }
+    return {
+      width: this.windowWidth,
+      height: this.windowHeight,
+      deviceScaleFactor: this.deviceScaleFactor,
+      isMobile: false,
+      hasTouch: false,
+      isLandscape: false,
+    }
+  }
+
+  /**
+   * Checks if the stats warm-up time of a page has passed.
+   * @param pageIndex The page index. If not set, it checks if the warm-up
+   * time of any of the session pages has passed.
+   */
+  isWarmedUp(pageIndex?: number): boolean {
+    if (!this.statsWarmup) {
+      return true
+    }
+    const minLoadTime = Date.now() - this.statsWarmup * 1000
+    if (pageIndex === undefined) {
+      return [...this.pagesLoadTime.values()].some(loadTime => loadTime <= minLoadTime)
+    }
+    const loadTime = this.pagesLoadTime.get(pageIndex)
+    return loadTime !== undefined && loadTime <= minLoadTime
+  }
+
+  /**
+   * Returns the browser context of the tab group, creating it if needed, and
+   * tracks the page as using it.
+   * @param index The page index.
+   * @param tabIndex The tab index.
+   */
+  private async getPageContext(index: number, tabIndex: number): Promise<BrowserContext> {
+    assert(this.browser, 'BrowserNotCreated')
+    const group = this.contextTabs ? Math.floor(tabIndex / this.contextTabs) : 0
+    let entry = this.contexts.get(group)
+    if (!entry) {
+      const context =
+        this.contextTabs || this.incognito
+          ? this.browser.createBrowserContext()
+          : Promise.resolve(this.browser.defaultBrowserContext())
+      entry = { context, pages: new Set() }
+      this.contexts.set(group, entry)
+      log.debug(`[session ${this.id}] browser context ${group} created`)
+    }
+    entry.pages.add(index)
+    try {
+      return await entry.context
+    } catch (err) {
+      this.contexts.delete(group)
+      throw err
+    }
+  }
+
+  /**
+   * Removes the page from its browser context, closing the context when it
+   * has no more pages open.
+   * @param index The page index.
+   */
+  private async releasePageContext(index: number): Promise<void> {
+    for (const [group, entry] of this.contexts.entries()) {
+      if (!entry.pages.delete(index) || entry.pages.size) continue
+      this.contexts.delete(group)
+      const context = await entry.context
+      if (context !== this.browser?.defaultBrowserContext() && !context.closed) {
+        log.debug(`[session ${this.id}] browser context ${group} closed`)
+        await context.close()
+      }
+    }
+  }
+
+  private async getNewPage(context: BrowserContext, tabIndex: number): Promise<Page> {
     log.debug(`getNewPage ${tabIndex}`)
-    assert(this.context, 'NoBrowserContextCreated')
-    return await this.context.newPage()
+    return await context.newPage()
   }
 
   private async onPageMessage(
@@ -1483,14 +2103,48 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     }
 
     const browserProcess = this.browser.process()
-    if (browserProcess) {
+    let processesStats = new Map<number, ProcessStat>()
+    if (browserProcess?.pid) {
       try {
-        const processStats = await getProcessStats(browserProcess.pid, true)
-        Object.assign(collectedStats, processStats)
+        const processes = await getBrowserProcesses(browserProcess.pid)
+        processesStats = await getProcessesStats([...processes.keys()])
+        const total: ProcessStat = { cpu: 0, memory: 0 }
+        const byType: Partial<Record<BrowserProcessType, ProcessStat>> = {}
+        for (const [pid, { cpu, memory }] of processesStats.entries()) {
+          total.cpu += cpu
+          total.memory += memory
+          const type = processes.get(pid) as BrowserProcessType
+          if (!byType[type]) {
+            byType[type] = { cpu: 0, memory: 0 }
+          }
+          byType[type].cpu += cpu
+          byType[type].memory += memory
+        }
+        Object.assign(collectedStats, total)
+        if (byType.browser) {
+          collectedStats.browserProcessCpu = byType.browser.cpu
+          collectedStats.browserProcessMemory = byType.browser.memory
+        }
+        if (byType.gpu) {
+          collectedStats.gpuProcessCpu = byType.gpu.cpu
+          collectedStats.gpuProcessMemory = byType.gpu.memory
+        }
+        if (byType.network) {
+          collectedStats.networkProcessCpu = byType.network.cpu
+          collectedStats.networkProcessMemory = byType.network.memory
+        }
+        // Map again the pages whose renderer process is not running anymore
+        // (e.g. after a cross-site navigation) or not mapped yet.
+        await this.updatePagesPid(
+          [...this.pages.keys()].filter(index => !processesStats.has(this.pagesPid.get(index) || 0)),
+        )
       } catch (err) {
-        log.error(`getProcessStats error: ${(err as Error).stack}`)
+        log.error(`getProcessesStats error: ${(err as Error).stack}`)
       }
     }
+    // The number of pages running in each renderer process.
+    const processPages = new Map<number, number>()
+    this.pagesPid.forEach(pid => processPages.set(pid, (processPages.get(pid) || 0) + 1))
 
     const pages: Record<string, number> = {}
     const peerConnections: Record<string, number> = {}
@@ -1501,6 +2155,9 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     const peerConnectionsConnected: Record<string, number> = {}
     const peerConnectionsDisconnected: Record<string, number> = {}
     const peerConnectionsFailed: Record<string, number> = {}
+    const iceRestarts: Record<string, number> = {}
+    const networkRecoveryConnectedTime: Record<string, number> = {}
+    const networkRecoveryBitrateTime: Record<string, number> = {}
     const audioEndToEndDelayStats: Record<string, number> = {}
     const audioStartFrameDelayStats: Record<string, number> = {}
     const videoEndToEndDelayStats: Record<string, number> = {}
@@ -1510,6 +2167,20 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     const httpRecvLatencyStats: Record<string, number> = {}
     const pageCpu: Record<string, number> = {}
     const pageMemory: Record<string, number> = {}
+    const signalingFramesSent: Record<string, number> = {}
+    const signalingFramesReceived: Record<string, number> = {}
+    const signalingBytesSent: Record<string, number> = {}
+    const signalingBytesReceived: Record<string, number> = {}
+    const signalingLatency: Record<string, number> = {}
+    const signalingReconnects: Record<string, number> = {}
+    const jsHeapUsedSize: Record<string, number> = {}
+    const jsHeapTotalSize: Record<string, number> = {}
+    const jsHeapGrowth: Record<string, number> = {}
+    const domNodes: Record<string, number> = {}
+    const jsEventListeners: Record<string, number> = {}
+    const documents: Record<string, number> = {}
+    const pageActionsDuration: Record<string, number> = {}
+    const pageActionsFailed: Record<string, number> = {}
     const cpuPressureStats: Record<string, number> = {}
 
     const throttleUpValuesRate: Record<string, number> = {}
@@ -1533,6 +2204,7 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
             videoEndToEndDelay,
             videoEndToEndNetworkDelay,
             cpuPressure,
+            networkRecovery,
             customMetrics,
           } = await page.evaluate(async () => ({
             peerConnectionStats: await collectPeerConnectionStats(),
@@ -1540,6 +2212,7 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
             videoEndToEndDelay: collectVideoEndToEndStats(),
             videoEndToEndNetworkDelay: collectVideoEndToEndNetworkDelayStats(),
             cpuPressure: collectCpuPressure(),
+            networkRecovery: collectNetworkRecoveryStats(),
             customMetrics: 'collectCustomMetrics' in window ? collectCustomMetrics() : null,
           }))
           const { participantName } = peerConnectionStats
@@ -1578,6 +2251,15 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
           increaseKey(peerConnectionsConnected, pageKey, peerConnectionStats.peerConnectionsConnected)
           increaseKey(peerConnectionsDisconnected, pageKey, peerConnectionStats.peerConnectionsDisconnected)
           increaseKey(peerConnectionsFailed, pageKey, peerConnectionStats.peerConnectionsFailed)
+          increaseKey(iceRestarts, pageKey, peerConnectionStats.iceRestarts)
+
+          // Network events recovery stats.
+          if (networkRecovery?.connectedTime !== undefined) {
+            networkRecoveryConnectedTime[pageKey] = networkRecovery.connectedTime
+          }
+          if (networkRecovery?.bitrateTime !== undefined) {
+            networkRecoveryBitrateTime[pageKey] = networkRecovery.bitrateTime
+          }
 
           // E2E stats.
           if (audioEndToEndDelay) {
@@ -1601,6 +2283,17 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
 
           if (cpuPressure !== undefined) cpuPressureStats[pageKey] = cpuPressure
 
+          // Signaling stats.
+          const signalingStats = this.pagesSignaling.get(pageIndex)?.collectStats()
+          if (signalingStats) {
+            signalingFramesSent[pageKey] = signalingStats.framesSent
+            signalingFramesReceived[pageKey] = signalingStats.framesReceived
+            signalingBytesSent[pageKey] = signalingStats.bytesSent
+            signalingBytesReceived[pageKey] = signalingStats.bytesReceived
+            if (signalingStats.latency !== undefined) signalingLatency[pageKey] = signalingStats.latency
+            signalingReconnects[pageKey] = signalingStats.reconnects
+          }
+
           // Collect RTC stats.
           for (const s of stats) {
             for (const [trackId, value] of Object.entries(s)) {
@@ -1630,40 +2323,75 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
             }
           }
 
-          // Collect page metrics
-          /* const metrics = await page.metrics()
-        if (metrics.Timestamp) {
-          const lastMetrics = this.pagesMetrics.get(pageIndex)
-          if (lastMetrics?.Timestamp) {
-            const elapsedTime = metrics.Timestamp - lastMetrics.Timestamp
-            if (elapsedTime > 10) {
-              const durationDiff =
-                metricsTotalDuration(metrics) -
-                metricsTotalDuration(lastMetrics)
-              const usage = (100 * durationDiff) / elapsedTime
-              pageCpu[pageKey] = usage
-              pageMemory[pageKey] = (metrics.JSHeapUsedSize || 0) / 1e6
-              this.pagesMetrics.set(pageIndex, metrics)
+          // Collect the page action steps results.
+          const actionsResults = this.pagesActionsResults.get(pageIndex)
+          if (actionsResults?.length) {
+            pageActionsDuration[pageKey] = actionsResults.reduce((sum, { duration }) => sum + duration, 0)
+            pageActionsFailed[pageKey] = actionsResults.filter(({ failed }) => failed).length
+            for (const { name, duration, failed } of actionsResults) {
+              if (!name) continue
+              for (const [key, value] of [
+                [`${name}ActionDuration`, duration],
+                [`${name}ActionFailed`, failed ? 1 : 0],
+              ] as [string, number][]) {
+                if (!customStats[key]) {
+                  customStats[key] = {}
+                }
+                customStats[key][pageKey] = value
+              }
             }
-          } else {
-            this.pagesMetrics.set(pageIndex, metrics)
           }
-        } */
-          pageCpu[pageKey] = (collectedStats.cpu as number) / this.tabsPerSession
-          pageMemory[pageKey] = (collectedStats.memory as number) / this.tabsPerSession
+
+          // Collect the page renderer process stats, split between the pages
+          // running in the same process.
+          const pid = this.pagesPid.get(pageIndex)
+          const processStats = pid ? processesStats.get(pid) : undefined
+          if (pid && processStats) {
+            const processPagesCount = processPages.get(pid) || 1
+            pageCpu[pageKey] = processStats.cpu / processPagesCount
+            pageMemory[pageKey] = processStats.memory / processPagesCount
+          } else if (collectedStats.cpu !== undefined) {
+            pageCpu[pageKey] = (collectedStats.cpu as number) / this.tabsPerSession
+            pageMemory[pageKey] = (collectedStats.memory as number) / this.tabsPerSession
+          }
+
+          // Collect the page JS heap and DOM metrics.
+          const metrics = await page.metrics()
+          this.pagesMetrics.set(pageIndex, metrics)
+          if (metrics.JSHeapUsedSize !== undefined) {
+            jsHeapUsedSize[pageKey] = metrics.JSHeapUsedSize / 1e6
+            const growth = this.updateHeapGrowth(pageIndex, jsHeapUsedSize[pageKey])
+            if (growth !== undefined) jsHeapGrowth[pageKey] = growth
+          }
+          if (metrics.JSHeapTotalSize !== undefined) jsHeapTotalSize[pageKey] = metrics.JSHeapTotalSize / 1e6
+          if (metrics.Nodes !== undefined) domNodes[pageKey] = metrics.Nodes
+          if (metrics.JSEventListeners !== undefined) jsEventListeners[pageKey] = metrics.JSEventListeners
+          if (metrics.Documents !== undefined) documents[pageKey] = metrics.Documents
 
           // Collect throttle metrics
-          const throttleUpValues = getSessionThrottleValues(this.throttleIndex, 'up')
-          throttleUpValuesRate[pageKey] = throttleUpValues.rate || 0
-          throttleUpValuesDelay[pageKey] = throttleUpValues.delay || 0
-          throttleUpValuesLoss[pageKey] = throttleUpValues.loss || 0
-          throttleUpValuesQueue[pageKey] = throttleUpValues.queue || 0
-
-          const throttleDownValues = getSessionThrottleValues(this.throttleIndex, 'down')
-          throttleDownValuesRate[pageKey] = throttleDownValues.rate || 0
-          throttleDownValuesDelay[pageKey] = throttleDownValues.delay || 0
-          throttleDownValuesLoss[pageKey] = throttleDownValues.loss || 0
-          throttleDownValuesQueue[pageKey] = throttleDownValues.queue || 0
+          if (this.networkEmulation) {
+            const { latency, uploadRate, downloadRate, packetLoss, packetQueueLength } = this.networkEmulation
+            throttleUpValuesRate[pageKey] = uploadRate || 0
+            throttleUpValuesDelay[pageKey] = latency || 0
+            throttleUpValuesLoss[pageKey] = packetLoss || 0
+            throttleUpValuesQueue[pageKey] = packetQueueLength || 0
+            throttleDownValuesRate[pageKey] = downloadRate || 0
+            throttleDownValuesDelay[pageKey] = latency || 0
+            throttleDownValuesLoss[pageKey] = packetLoss || 0
+            throttleDownValuesQueue[pageKey] = packetQueueLength || 0
+          } else {
+            const throttleUpValues = getSessionThrottleValues(this.throttleIndex, 'up')
+            throttleUpValuesRate[pageKey] = throttleUpValues.rate || 0
+            throttleUpValuesDelay[pageKey] = throttleUpValues.delay || 0
+            throttleUpValuesLoss[pageKey] = throttleUpValues.loss || 0
+            throttleUpValuesQueue[pageKey] = throttleUpValues.queue || 0
+
+            const throttleDownValues = getSessionThrottleValues(this.throttleIndex, 'down')
+            throttleDownValuesRate[pageKey] = throttleDownValues.rate || 0
+            throttleDownValuesDelay[pageKey] = throttleDownValues.delay || 0
+            throttleDownValuesLoss[pageKey] = throttleDownValues.loss || 0
+            throttleDownValuesQueue[pageKey] = throttleDownValues.queue || 0
+          }
         } catch (err) {
           const error = err as Error
           if (error.message.includes('Execution context was destroyed, most likely because of a navigation.')) {
@@ -1678,6 +2406,8 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     collectedStats.pages = pages
     if (this.pageErrors) collectedStats.errors = this.pageErrors
     if (this.pageWarnings) collectedStats.warnings = this.pageWarnings
+    if (this.restarts) collectedStats.restarts = this.restarts
+    if (this.crashes) collectedStats.crashes = this.crashes
     collectedStats.peerConnections = peerConnections
     collectedStats.peerConnectionConnectionTime = peerConnectionConnectionTime
     collectedStats.peerConnectionDisconnectionTime = peerConnectionDisconnectionTime
@@ -1686,6 +2416,9 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     collectedStats.peerConnectionsClosed = peerConnectionsClosed
     collectedStats.peerConnectionsDisconnected = peerConnectionsDisconnected
     collectedStats.peerConnectionsFailed = peerConnectionsFailed
+    collectedStats.iceRestarts = iceRestarts
+    collectedStats.networkRecoveryConnectedTime = networkRecoveryConnectedTime
+    collectedStats.networkRecoveryBitrateTime = networkRecoveryBitrateTime
     collectedStats.audioEndToEndDelay = audioEndToEndDelayStats
     collectedStats.audioStartFrameDelay = audioStartFrameDelayStats
     collectedStats.videoEndToEndDelay = videoEndToEndDelayStats
@@ -1696,6 +2429,20 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     collectedStats.cpuPressure = cpuPressureStats
     collectedStats.pageCpu = pageCpu
     collectedStats.pageMemory = pageMemory
+    collectedStats.signalingFramesSent = signalingFramesSent
+    collectedStats.signalingFramesReceived = signalingFramesReceived
+    collectedStats.signalingBytesSent = signalingBytesSent
+    collectedStats.signalingBytesReceived = signalingBytesReceived
+    collectedStats.signalingLatency = signalingLatency
+    collectedStats.signalingReconnects = signalingReconnects
+    collectedStats.jsHeapUsedSize = jsHeapUsedSize
+    collectedStats.jsHeapTotalSize = jsHeapTotalSize
+    collectedStats.jsHeapGrowth = jsHeapGrowth
+    collectedStats.domNodes = domNodes
+    collectedStats.jsEventListeners = jsEventListeners
+    collectedStats.documents = documents
+    collectedStats.pageActionsDuration = pageActionsDuration
+    collectedStats.pageActionsFailed = pageActionsFailed
     collectedStats.throttleUpRate = throttleUpValuesRate
     collectedStats.throttleUpDelay = throttleUpValuesDelay
     collectedStats.throttleUpLoss = throttleUpValuesLoss
@@ -1725,6 +2472,37 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     this.running = false
     log.debug(`${this.id} stop`)
 
+    if (this.networkTraceTimer) {
+      clearInterval(this.networkTraceTimer)
+      this.networkTraceTimer = undefined
+    }
+    if (this.screenshotTimer) {
+      clearInterval(this.screenshotTimer)
+      this.screenshotTimer = undefined
+    }
+    this.networkEventTimers.forEach(timer => clearTimeout(timer))
+    this.networkEventTimers.clear()
+    this.activeNetworkEvents.clear()
+    this.traceTimers.forEach(timer => clearTimeout(timer))
+    this.traceTimers.clear()
+    this.screencastTimers.forEach(timer => clearTimeout(timer))
+    this.screencastTimers.clear()
+    await Promise.allSettled([...this.pagesHar.keys()].map(index => this.writePageHar(index)))
+    await Promise.allSettled(
+      [...this.pagesScreencasts.keys()].map(index =>
+        this.stopPageScreencast(index - this.id).catch(err =>
+          log.error(`[session ${this.id}] stopPageScreencast error: ${(err as Error).stack}`),
+        ),
+      ),
+    )
+    await Promise.allSettled(
+      [...this.pagesTraces.keys()].map(index =>
+        this.stopPageTrace(index - this.id).catch(err =>
+          log.error(`[session ${this.id}] stopPageTrace error: ${(err as Error).stack}`),
+        ),
+      ),
+    )
+
     if (this.stopPortForwarder) {
       this.stopPortForwarder()
     }
@@ -1749,6 +2527,16 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
         }
       }
 
+      await Promise.allSettled(
+        [...this.contexts.values()].map(async ({ context }) => {
+          const ctx = await context
+          if (ctx !== this.browser?.defaultBrowserContext() && !ctx.closed) {
+            await ctx.close()
+          }
+        }),
+      )
+      this.contexts.clear()
+
       this.browser.removeAllListeners()
       if (this.chromiumUrl) {
         log.debug(`${this.id} disconnect from browser`)
@@ -1771,6 +2559,10 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
       }
       this.pages.clear()
       this.pagesMetrics.clear()
+      this.pagesPid.clear()
+      this.pagesHeapSamples.clear()
+      this.pagesSignaling.forEach(recorder => recorder.close())
+      this.pagesSignaling.clear()
       this.browser = undefined
     }
 
@@ -1797,4 +2589,273 @@ window.SERVER_USE_HTTPS = ${this.serverUseHttps};
     })
     return filePath
   }
+
+  /**
+   * Starts the periodic screenshot capture of all the session pages.
+   */
+  private startScreenshots(): void {
+    if (!this.screenshotInterval) {
+      return
+    }
+    let running = false
+    this.screenshotTimer = setInterval(async () => {
+      if (running) return
+      running = true
+      await Promise.allSettled(
+        [...this.pages.keys()].map(index =>
+          this.capturePageScreenshot(index).catch(err =>
+            log.warn(`[session ${this.id}] page ${index + 1} screenshot error: ${(err as Error).message}`),
+          ),
+        ),
+      )
+      running = false
+    }, this.screenshotInterval * 1000)
+  }
+
+  /**
+   * Captures the page visible area, storing it as the page latest screenshot.
+   * The older files exceeding the `screenshotRetention` count are deleted.
+   * @param index The page index.
+   */
+  private async capturePageScreenshot(index: number): Promise<void> {
+    const page = this.pages.get(index)
+    if (!page) {
+      return
+    }
+    const timestamp = Date.now()
+    const filePath = path.resolve(this.logsDirPath, 'screenshots', `screenshot-${index}-${timestamp}.jpeg`)
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    await page.screenshot({ path: filePath, type: 'jpeg', quality: 70 })
+    const participantName = await page.evaluate(() => getParticipantName()).catch(() => '')
+    if (this.pages.has(index)) {
+      this.pagesScreenshots.set(index, { index, participantName, filePath, timestamp })
+    }
+    if (!this.screenshotRetention) {
+      return
+    }
+    let files = this.pagesScreenshotFiles.get(index)
+    if (!files) {
+      files = []
+      this.pagesScreenshotFiles.set(index, files)
+    }
+    files.push(filePath)
+    const expired = files.splice(0, Math.max(files.length - this.screenshotRetention, 0))
+    await Promise.all(
+      expired.map(file =>
+        fs.promises.unlink(file).catch(err => log.warn(`screenshot unlink error: ${(err as Error).message}`)),
+      ),
+    )
+  }
+
+  /**
+   * Returns the latest periodic screenshot of each page.
+   */
+  getPagesScreenshots(): PageScreenshot[] {
+    return [...this.pagesScreenshots.values()]
+  }
+
+  /**
+   * The directory where the page traces, HAR, signaling log, screencast and
+   * screenshot files are written: the `serverData` directory, so that the files
+   * can be downloaded with the server `/data` endpoint, or the `pageLogPath`
+   * directory or the system temporary directory if not set.
+   */
+  private get logsDirPath(): string {
+    if (this.serverData) {
+      return path.resolve(this.serverData)
+    }
+    return this.pageLogPath ? path.dirname(this.pageLogPath) : os.tmpdir()
+  }
+
+  /**
+   * Writes the page HAR file, if the recording is enabled.
+   * @param index The page index.
+   */
+  private async writePageHar(index: number): Promise<void> {
+    const har = this.pagesHar.get(index)
+    if (!har) {
+      return
+    }
+    this.pagesHar.delete(index)
+    await har.recorder.write(har.filePath)
+  }
+
+  /**
+   * Starts a Chrome performance trace of the page. The trace file is written
+   * in the page logs directory when the trace is stopped. Since the Chrome
+   * tracing is browser-wide, only one page of the session can be traced at a
+   * time.
+   * @param pageIndex The page number (starting from `0`) running inside the session.
+   * @return The trace file path.
+   */
+  async startPageTrace(pageIndex = 0): Promise<string> {
+    const index = this.id + pageIndex
+    log.debug(`startPageTrace ${index}`)
+    const page = this.pages.get(index)
+    if (!page) {
+      throw new Error(`Page ${index} not found`)
+    }
+    if (this.pagesTraces.has(index)) {
+      throw new Error(`Page ${index} trace already started`)
+    }
+    if (this.pagesTraces.size) {
+      throw new Error(`Page ${[...this.pagesTraces.keys()][0]} trace already started in the browser`)
+    }
+    const filePath = path.resolve(this.logsDirPath, `trace-${index}-${Date.now()}.json`)
+    this.pagesTraces.set(index, filePath)
+    try {
+      await fs.promises.mkdir(this.logsDirPath, { recursive: true })
+      await page.tracing.start({
+        path: filePath,
+        categories: this.chromeTraceCategories.length ? this.chromeTraceCategories : undefined,
+      })
+    } catch (err) {
+      this.pagesTraces.delete(index)
+      throw err
+    }
+    log.info(`[session ${this.id}] page ${index + 1} trace started`)
+    return filePath
+  }
+
+  /**
+   * Stops the Chrome performance trace of the page, writing the trace file.
+   * @param pageIndex The page number (starting from `0`) running inside the session.
+   * @return The trace file path.
+   */
+  async stopPageTrace(pageIndex = 0): Promise<string> {
+    const index = this.id + pageIndex
+    log.debug(`stopPageTrace ${index}`)
+    const page = this.pages.get(index)
+    const filePath = this.pagesTraces.get(index)
+    if (!page || !filePath) {
+      throw new Error(`Page ${index} trace not started`)
+    }
+    this.pagesTraces.delete(index)
+    await page.tracing.stop()
+    log.info(`[session ${this.id}] page ${index + 1} trace written in ${filePath}`)
+    return filePath
+  }
+
+  /**
+   * Starts the page screencast video recording. The video file is written in
+   * the page logs directory.
+   * @param pageIndex The page number (starting from `0`) running inside the session.
+   * @return The video file path.
+   */
+  async startPageScreencast(pageIndex = 0): Promise<string> {
+    const index = this.id + pageIndex
+    log.debug(`startPageScreencast ${index}`)
+    const page = this.pages.get(index)
+    if (!page) {
+      throw new Error(`Page ${index} not found`)
+    }
+    if (this.pagesScreencasts.has(index)) {
+      throw new Error(`Page ${index} screencast already started`)
+    }
+    const { format } = this.screencastOptions
+    const filePath = path.resolve(this.logsDirPath, `screencast-${index}-${Date.now()}.${format}`)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const recorder = new ScreencastRecorder((page as any)._client() as CDPSession, filePath, this.screencastOptions)
+    this.pagesScreencasts.set(index, recorder)
+    try {
+      await recorder.start()
+    } catch (err) {
+      this.pagesScreencasts.delete(index)
+      throw err
+    }
+    log.info(`[session ${this.id}] page ${index + 1} screencast started`)
+    return filePath
+  }
+
+  /**
+   * Stops the page screencast video recording, waiting for the video file to
+   * be written.
+   * @param pageIndex The page number (starting from `0`) running inside the session.
+   * @return The video file path.
+   */
+  async stopPageScreencast(pageIndex = 0): Promise<string> {
+    const index = this.id + pageIndex
+    log.debug(`stopPageScreencast ${index}`)
+    const recorder = this.pagesScreencasts.get(index)
+    if (!recorder) {
+      throw new Error(`Page ${index} screencast not started`)
+    }
+    this.pagesScreencasts.delete(index)
+    await recorder.stop()
+    return recorder.filePath
+  }
+
+  /**
+   * Records the screencast video of the session pages for the provided
+   * duration. The pages already being recorded are skipped.
+   * @param duration The recording duration in seconds.
+   */
+  screencastPages(duration: number): void {
+    const indexes = [...this.pages.keys()].filter(index => !this.pagesScreencasts.has(index))
+    if (!indexes.length) {
+      return
+    }
+    indexes.forEach(index =>
+      this.startPageScreencast(index - this.id).catch(err =>
+        log.error(`[session ${this.id}] startPageScreencast error: ${(err as Error).stack}`),
+      ),
+    )
+    const timer = setTimeout(() => {
+      this.screencastTimers.delete(timer)
+      indexes
+        .filter(index => this.pagesScreencasts.has(index))
+        .forEach(index =>
+          this.stopPageScreencast(index - this.id).catch(err =>
+            log.error(`[session ${this.id}] stopPageScreencast error: ${(err as Error).stack}`),
+          ),
+        )
+    }, duration * 1000)
+    this.screencastTimers.add(timer)
+  }
+
+  /**
+   * Traces the session pages for the provided duration. The Chrome tracing is
+   * browser-wide, so only the first page is traced, including the events of
+   * all the session pages. It is skipped if a page trace is already running.
+   * @param duration The trace duration in seconds.
+   */
+  tracePages(duration: number): void {
+    if (!this.pages.size || this.pagesTraces.size) {
+      return
+    }
+    const index = Math.min(...this.pages.keys())
+    this.startPageTrace(index - this.id).catch(err =>
+      log.error(`[session ${this.id}] startPageTrace error: ${(err as Error).stack}`),
+    )
+    const timer = setTimeout(() => {
+      this.traceTimers.delete(timer)
+      if (this.pagesTraces.has(index)) {
+        this.stopPageTrace(index - this.id).catch(err =>
+          log.error(`[session ${this.id}] stopPageTrace error: ${(err as Error).stack}`),
+        )
+      }
+    }, duration * 1000)
+    this.traceTimers.add(timer)
+  }
+
+  /**
+   * Schedules the `chromeTraceWindow` pages trace, relative to the test
+   * start time.
+   */
+  private startChromeTraceWindow(): void {
+    if (!this.chromeTraceEnabled || !this.chromeTraceWindow) {
+      return
+    }
+    const [start, end] = this.chromeTraceWindow.split('-').map(s => parseFloat(s))
+    const delay = start * 1000 - (Date.now() - this.startTimestamp)
+    if (!(end > start) || delay < 0) {
+      log.warn(`[session ${this.id}] chromeTraceWindow skipped: ${this.chromeTraceWindow}`)
+      return
+    }
+    const timer = setTimeout(() => {
+      this.traceTimers.delete(timer)
+      this.tracePages(end - start)
+    }, delay)
+    this.traceTimers.add(timer)
+  }
 }
@@ -0,0 +1,194 @@
+import fs from 'fs'
+import path from 'path'
+import { CDPSession, Protocol } from 'puppeteer-core'
+
+import { logger } from './utils'
+
+const log = logger('webrtcperf:signaling')
+
+/** The maximum time (s) waited for a signaling response. */
+const PENDING_REQUEST_TIMEOUT = 60
+
+/** The signaling WebSocket stats collected since the previous call. */
+export interface SignalingStats {
+  /** The sent frames per second. */
+  framesSent: number
+  /** The received frames per second. */
+  framesReceived: number
+  /** The sent bytes per second. */
+  bytesSent: number
+  /** The received bytes per second. */
+  bytesReceived: number
+  /** The request/response average latency (ms). */
+  latency?: number
+  /** The total WebSocket reconnections. */
+  reconnects: number
+}
+
+/** The {@link SignalingRecorder} options. */
+export interface SignalingRecorderOptions {
+  /** If set, only the WebSocket urls matching the regular expression are monitored. */
+  urlFilter?: string
+  /**
+   * The JSON path (e.g. `id` or `data.transaction`) of the message id used to
+   * match the requests with the responses.
+   */
+  idPath?: string
+  /** If set, the frames are logged into this JSONL file path. */
+  logPath?: string
+  /** If set, only the frames with a payload matching the regular expression are logged. */
+  logFilter?: string
+}
+
+/**
+ * Returns the WebSocket frame payload size in bytes: the binary frames
+ * (opcode 2) payload is base64 encoded, the text frames payload is UTF-8.
+ * @param frame The WebSocket frame.
+ */
+function getPayloadSize({ opcode, payloadData }: Protocol.Network.WebSocketFrame): number {
+  return Buffer.byteLength(payloadData, opcode === 2 ? 'base64' : 'utf8')
+}
+
+/**
+ * Returns the value at the provided path (e.g. `data.id`) of a JSON payload.
+ * @param payload The JSON payload.
+ * @param idPath The dot separated path.
+ */
+function getPayloadId(payload: string, idPath: string): string | undefined {
+  if (!payload.startsWith('{') && !payload.startsWith('[')) return
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let value: any = JSON.parse(payload)
+    for (const key of idPath.split('.')) {
+      value = value?.[key]
+    }
+    return value !== undefined && value !== null ? String(value) : undefined
+  } catch {
+    return
+  }
+}
+
+/**
+ * Monitors the page signaling WebSocket traffic using the CDP `Network`
+ * events, collecting the frames rate, the request/response latency and the
+ * reconnections count; optionally it logs the frames into a JSONL file.
+ */
+export class SignalingRecorder {
+  private readonly urlFilter: RegExp | null
+  private readonly idPath: string
+  private readonly logFilter: RegExp | null
+  private logFile: fs.WriteStream | null = null
+
+  private readonly sockets = new Map<string, string>()
+  private readonly connectedUrls = new Set<string>()
+  private readonly pendingRequests = new Map<string, number>()
+  private reconnects = 0
+  private framesSent = 0
+  private framesReceived = 0
+  private bytesSent = 0
+  private bytesReceived = 0
+  private latencySum = 0
+  private latencyCount = 0
+  private lastCollectTime = Date.now()
+
+  /**
+   * SignalingRecorder.
+   * @param cdp The page CDP session.
+   * @param options The recorder options.
+   */
+  constructor(cdp: CDPSession, options: SignalingRecorderOptions = {}) {
+    const { urlFilter, idPath, logPath, logFilter } = options
+    this.urlFilter = urlFilter ? new RegExp(urlFilter) : null
+    this.idPath = idPath || ''
+    this.logFilter = logFilter ? new RegExp(logFilter) : null
+    if (logPath) {
+      fs.mkdirSync(path.dirname(logPath), { recursive: true })
+      this.logFile = fs.createWriteStream(logPath, { flags: 'a' })
+      this.logFile.on('error', err => log.error(`signaling log ${logPath} error: ${err.message}`))
+    }
+
+    cdp.on('Network.webSocketCreated', ({ requestId, url }) => {
+      if (this.urlFilter && !this.urlFilter.test(url)) return
+      // Ignore the query params (e.g. tokens) when matching the reconnections.
+      const baseUrl = url.split('?')[0]
+      if (this.connectedUrls.has(baseUrl)) {
+        this.reconnects++
+        log.debug(`WebSocket reconnected: ${baseUrl}`)
+      }
+      this.connectedUrls.add(baseUrl)
+      this.sockets.set(requestId, url)
+    })
+
+    cdp.on('Network.webSocketClosed', ({ requestId }) => {
+      this.sockets.delete(requestId)
+    })
+
+    cdp.on('Network.webSocketFrameSent', ({ requestId, timestamp, response }) => {
+      const url = this.sockets.get(requestId)
+      if (!url) return
+      this.framesSent++
+      this.bytesSent += getPayloadSize(response)
+      if (this.idPath) {
+        const id = getPayloadId(response.payloadData, this.idPath)
+        if (id !== undefined) {
+          this.pendingRequests.set(id, timestamp)
+        }
+      }
+      this.logFrame('sent', url, response.opcode, response.payloadData)
+    })
+
+    cdp.on('Network.webSocketFrameReceived', ({ requestId, timestamp, response }) => {
+      const url = this.sockets.get(requestId)
+      if (!url) return
+      this.framesReceived++
+      this.bytesReceived += getPayloadSize(response)
+      if (this.idPath) {
+        const id = getPayloadId(response.payloadData, this.idPath)
+        const sentTimestamp = id !== undefined ? this.pendingRequests.get(id) : undefined
+        if (id !== undefined && sentTimestamp !== undefined) {
+          this.pendingRequests.delete(id)
+          this.latencySum += (timestamp - sentTimestamp) * 1000
+          this.latencyCount++
+        }
+        for (const [id, sentTimestamp] of this.pendingRequests.entries()) {
+          if (timestamp - sentTimestamp < PENDING_REQUEST_TIMEOUT) break
+          this.pendingRequests.delete(id)
+        }
+      }
+      this.logFrame('received', url, response.opcode, response.payloadData)
+    })
+  }
+
+  private logFrame(direction: 'sent' | 'received', url: string, opcode: number, payload: string): void {
+    if (!this.logFile || (this.logFilter && !this.logFilter.test(payload))) return
+    this.logFile.write(JSON.stringify({ timestamp: Date.now(), direction, url, opcode, payload }) + '\n')
+  }
+
+  /**
+   * Returns the stats collected since the previous call.
+   */
+  collectStats(): SignalingStats {
+    const now = Date.now()
+    const elapsed = Math.max((now - this.lastCollectTime) / 1000, 1)
+    const stats: SignalingStats = {
+      framesSent: this.framesSent / elapsed,
+      framesReceived: this.framesReceived / elapsed,
+      bytesSent: this.bytesSent / elapsed,
+      bytesReceived: this.bytesReceived / elapsed,
+      latency: this.latencyCount ? this.latencySum / this.latencyCount : undefined,
+      reconnects: this.reconnects,
+    }
+    this.framesSent = this.framesReceived = this.bytesSent = this.bytesReceived = 0
+    this.latencySum = this.latencyCount = 0
+    this.lastCollectTime = now
+    return stats
+  }
+
+  /**
+   * Closes the frames log file.
+   */
+  close(): void {
+    this.logFile?.end()
+    this.logFile = null
+  }
+}
@@ -12,9 +12,21 @@ import { PrometheusContentType } from 'prom-client'
 import { sprintf } from 'sprintf-js'
 import * as zlib from 'zlib'
 
+import { parsePageActions } from './actions'
+import { redactConfig } from './config'
+import { StatsTimeSeries, writeStatsReport } from './report'
 import { PageStatsNames, RtcStatsMetricNames, parseRtStatKey } from './rtcstats'
 import { Session } from './session'
-import { Scheduler, enabledForSession, hideAuth, logger, toPrecision } from './utils'
+import {
+  Scheduler,
+  enabledForSession,
+  escapeCsv,
+  escapeHtml,
+  getPackageVersion,
+  hideAuth,
+  logger,
+  toPrecision,
+} from './utils'
 
 export { FastStats }
 
@@ -43,13 +55,13 @@ class StatsWriter {
    */
   async push(dataColumns: string[]): Promise<void> {
     if (!this._header_written) {
-      const data = ['datetime', ...this.columns].join(',') + '\n'
+      const data = ['datetime', ...this.columns].map(escapeCsv).join(',') + '\n'
       await fs.promises.mkdir(path.dirname(this.fname), { recursive: true })
       await fs.promises.writeFile(this.fname, data)
       this._header_written = true
     }
     //
-    const data = [Date.now(), ...dataColumns].join(',') + '\n'
+    const data = [Date.now(), ...dataColumns].map(escapeCsv).join(',') + '\n'
     return fs.promises.appendFile(this.fname, data)
   }
 }
@@ -97,6 +109,7 @@ export interface CollectedStats {
   all: FastStats
   byHost: Record<string, FastStats>
   byCodec: Record<string, FastStats>
+  byRole: Record<string, FastStats>
   byParticipantAndTrack: Record<string, number>
 }
 
@@ -104,6 +117,7 @@ export interface CollectedStatsRaw {
   all: number[]
   byHost: Record<string, number[]>
   byCodec: Record<string, number[]>
+  byRole: Record<string, number[]>
   byParticipantAndTrack: Record<string, number>
 }
 
@@ -137,6 +151,96 @@ function formatStats(s: FastStats, forWriter = false): StatsData | string[] {
   }
 }
 
+/** The maximum number of weighted points kept by {@link RunStats}. */
+const RUN_STATS_MAX_POINTS = 2000
+
+/** The number of quantile points added by {@link RunStats} for each stats interval. */
+const RUN_STATS_INTERVAL_POINTS = 100
+
+/**
+ * The values of a metric aggregated over the whole run, using a bounded
+ * memory. The length, sum, mean, standard deviation, min and max values are
+ * exact; the percentiles are estimated from a fixed-size list of weighted
+ * points: each stats interval adds its quantiles and, when the list is full,
+ * the adjacent points are merged.
+ */
+class RunStats {
+  private length = 0
+  private sum = 0
+  private sumOfSquares = 0
+  private min = Infinity
+  private max = -Infinity
+  private points: { value: number; weight: number }[] = []
+
+  /**
+   * Adds the samples of a stats interval.
+   * @param s The interval stats.
+   */
+  add(s: FastStats): void {
+    if (!s.length) return
+    this.length += s.length
+    this.sum += s.sum
+    this.sumOfSquares += s.sum_of_squares
+    this.min = Math.min(this.min, s.min ?? Infinity)
+    this.max = Math.max(this.max, s.max ?? -Infinity)
+    const count = Math.min(s.length, RUN_STATS_INTERVAL_POINTS)
+    for (let i = 0; i < count; i++) {
+      this.points.push({ value: s.percentile(((i + 0.5) * 100) / count), weight: s.length / count })
+    }
+    if (this.points.length > RUN_STATS_MAX_POINTS) {
+      this.points.sort((a, b) => a.value - b.value)
+      const merged: { value: number; weight: number }[] = []
+      for (let i = 0; i < this.points.length; i += 2) {
+        const a = this.points[i]
+        const b = this.points[i + 1]
+        if (!b) {
+          merged.push(a)
+          continue
+        }
+        const weight = a.weight + b.weight
+        merged.push({ value: (a.value * a.weight + b.value * b.weight) / weight, weight })
+      }
+      this.points = merged
+    }
+  }
+
+  /**
+   * Returns the estimated percentile value.
+   * @param n The percentile (0-100).
+   */
+  percentile(n: number): number {
+    if (!this.points.length) return 0
+    this.points.sort((a, b) => a.value - b.value)
+    const target = (n / 100) * this.length
+    let cumulative = 0
+    for (const { value, weight } of this.points) {
+      cumulative += weight
+      if (cumulative >= target) return value
+    }
+    return this.points[this.points.length - 1].value
+  }
+
+  /**
+   * Returns the aggregated {@link StatsData}.
+   */
+  toStatsData(): StatsData {
+    if (!this.length) {
+      return { length: 0, sum: 0, mean: 0, stddev: 0, p5: 0, p95: 0, min: 0, max: 0 }
+    }
+    const mean = this.sum / this.length
+    return {
+      length: this.length,
+      sum: this.sum,
+      mean,
+      stddev: Math.sqrt(Math.max(this.sumOfSquares / this.length - mean * mean, 0)),
+      p5: this.percentile(5),
+      p95: this.percentile(95),
+      min: this.min,
+      max: this.max,
+    }
+  }
+}
+
 /**
  * Formats the console stats title.
  * @param name
@@ -323,15 +427,46 @@ export class Stats extends events.EventEmitter {
   readonly startTimestamp: number
   readonly enableDetailedStats: boolean | string | number
   private readonly startTimestampString: string
+  private readonly scenarioEnabled: boolean
+
+  /** The current scenario phase name. */
+  phase = ''
+  /** The HTML report file path. */
+  readonly reportPath: string
+  /** The JSON run summary file path. */
+  readonly summaryPath: string
+  /** The redacted run configuration. */
+  readonly runConfig: Record<string, unknown>
+  /** The browser version used by the sessions. */
+  browserVersion = ''
+  /** The per-interval stats values, collected when the HTML report is enabled. */
+  readonly timeSeries: StatsTimeSeries = {}
+  /** The stats values collected during the whole run, used by the JSON summary. */
+  private readonly runStats: Record<
+    string,
+    { all: RunStats; byHost: Record<string, RunStats>; byCodec: Record<string, RunStats> }
+  > = {}
+
+  /** The scenario phase markers, in starting order. */
+  readonly phaseMarkers: { name: string; timestamp: number }[] = []
 
   readonly sessions = new Map<number, Session>()
   nextSessionId: number
+  /** The number of sessions started again with the same id. */
+  sessionRestarts = 0
+  /** The run failure reason, if any. */
+  failReason = ''
+  private readonly startedSessionIds = new Set<number>()
+  /** The page errors and warnings counts of the removed sessions. */
+  private removedSessionsPageErrors = 0
+  private removedSessionsPageWarnings = 0
   statsWriter: StatsWriter | null
   detailedStatsWriter: StatsWriter | null
   private scheduler?: Scheduler
 
   private alertRules: Record<string, AlertRule> | null = null
   readonly alertRulesFilename: string
+  readonly alertRulesJunitFilename: string
   private readonly alertRulesFailPercentile: number
   private readonly pushStatsUrl: string
   private readonly pushStatsId: string
@@ -353,9 +488,16 @@ export class Stats extends events.EventEmitter {
     >
   >()
   private gateway: promClient.Pushgateway<PrometheusContentType> | null = null
+  /**
+   * The Prometheus metrics registry, created when the Pushgateway is used or
+   * when the metrics are exposed by the control server `/metrics` endpoint.
+   */
+  register: promClient.Registry | null = null
+  private readonly serverMetrics: boolean
 
   /* metricConfigGauge: promClient.Gauge<string> | null = null */
   private elapsedTimeMetric: promClient.Gauge<string> | null = null
+  private phaseMetric: promClient.Gauge<string> | null = null
   private metrics: Record<
     string,
     {
@@ -380,6 +522,7 @@ export class Stats extends events.EventEmitter {
   > = {}
 
   private alertTagsMetrics?: promClient.Gauge<string>
+  private readonly participantRoles = new Map<string, string>()
   private readonly customMetricsLabels: Record<string, string | undefined>
 
   collectedStats: Record<string, CollectedStats>
@@ -401,29 +544,7 @@ export class Stats extends events.EventEmitter {
   /**
    * Stats aggregator class.
    */
-  constructor({
-    statsPath,
-    detailedStatsPath,
-    prometheusPushgateway,
-    prometheusPushgatewayJobName,
-    prometheusPushgatewayAuth,
-    prometheusPushgatewayGzip,
-    showStats,
-    showPageLog,
-    statsInterval,
-    rtcStatsTimeout,
-    customMetrics,
-    alertRules,
-    alertRulesFilename,
-    alertRulesFailPercentile,
-    pushStatsUrl,
-    pushStatsId,
-    serverSecret,
-    startSessionId,
-    startTimestamp,
-    enableDetailedStats,
-    customMetricsLabels,
-  }: {
+  constructor(config: {
     statsPath: string
     detailedStatsPath: string
     prometheusPushgateway: string
@@ -437,7 +558,10 @@ export class Stats extends events.EventEmitter {
     customMetrics: string
     alertRules: string
     alertRulesFilename: string
+    alertRulesJunitFilename?: string
     alertRulesFailPercentile: number
+    jsHeapGrowthLimit?: number
+    pageActions?: string
     pushStatsUrl: string
     pushStatsId: string
     serverSecret: string
@@ -445,8 +569,42 @@ export class Stats extends events.EventEmitter {
     startTimestamp: number
     enableDetailedStats: boolean | string | number
     customMetricsLabels?: string
+    scenario?: string
+    serverPort?: number
+    reportPath?: string
+    summaryPath?: string
   }) {
     super()
+    const {
+      statsPath,
+      detailedStatsPath,
+      prometheusPushgateway,
+      prometheusPushgatewayJobName,
+      prometheusPushgatewayAuth,
+      prometheusPushgatewayGzip,
+      showStats,
+      showPageLog,
+      statsInterval,
+      rtcStatsTimeout,
+      customMetrics,
+      alertRules,
+      alertRulesFilename,
+      alertRulesJunitFilename,
+      alertRulesFailPercentile,
+      jsHeapGrowthLimit,
+      pageActions,
+      pushStatsUrl,
+      pushStatsId,
+      serverSecret,
+      startSessionId,
+      startTimestamp,
+      enableDetailedStats,
+      customMetricsLabels,
+      scenario,
+      serverPort,
+      reportPath,
+      summaryPath,
+    } = config
     this.statsPath = statsPath
     this.detailedStatsPath = detailedStatsPath
     this.prometheusPushgateway = prometheusPushgateway
@@ -461,6 +619,12 @@ export class Stats extends events.EventEmitter {
       this.customMetrics = json5.parse(customMetrics)
       log.debug(`using customMetrics: ${JSON.stringify(this.customMetrics, undefined, 2)}`)
     }
+    // The named page action steps metrics.
+    for (const { name } of parsePageActions(pageActions || '')) {
+      if (!name) continue
+      this.customMetrics[`${name}ActionDuration`] = {}
+      this.customMetrics[`${name}ActionFailed`] = {}
+    }
 
     this.collectedStats = this.initCollectedStats()
     this.sessions = new Map()
@@ -468,6 +632,11 @@ export class Stats extends events.EventEmitter {
     this.startTimestamp = startTimestamp || Date.now()
     this.startTimestampString = new Date(this.startTimestamp).toISOString()
     this.enableDetailedStats = enableDetailedStats
+    this.scenarioEnabled = !!scenario?.trim()
+    this.serverMetrics = !!serverPort
+    this.reportPath = reportPath || ''
+    this.summaryPath = summaryPath || ''
+    this.runConfig = redactConfig(config)
     this.customMetricsLabels = customMetricsLabels
       ? customMetricsLabels.split(',').reduce(
           (p, label) => {
@@ -487,7 +656,15 @@ export class Stats extends events.EventEmitter {
       this.alertRules = json5.parse(alertRules)
       log.debug(`using alertRules: ${JSON.stringify(this.alertRules, undefined, 2)}`)
     }
+    if (jsHeapGrowthLimit && !this.alertRules?.jsHeapGrowth) {
+      this.alertRules = {
+        ...this.alertRules,
+        jsHeapGrowth: { tags: ['memoryLeak'], max: { $lt: jsHeapGrowthLimit } },
+      }
+      log.debug(`using jsHeapGrowth alert rule: ${jsHeapGrowthLimit} MB/hour`)
+    }
     this.alertRulesFilename = alertRulesFilename
+    this.alertRulesJunitFilename = alertRulesJunitFilename || ''
     this.alertRulesFailPercentile = alertRulesFailPercentile
     this.pushStatsUrl = pushStatsUrl
     this.pushStatsId = pushStatsId
@@ -531,6 +708,7 @@ export class Stats extends events.EventEmitter {
           all: new FastStats(),
           byHost: {},
           byCodec: {},
+          byRole: {},
           byParticipantAndTrack: {},
         } as CollectedStats
         return prev
@@ -553,6 +731,16 @@ export class Stats extends events.EventEmitter {
     return id
   }
 
+  /**
+   * Sets the current scenario phase, adding a marker to the stats output.
+   * @param name The phase name.
+   */
+  setPhase(name: string): void {
+    log.debug(`setPhase ${name}`)
+    this.phase = name
+    this.phaseMarkers.push({ name, timestamp: Date.now() })
+  }
+
   /**
    * Adds the session to the list of monitored sessions.
    */
@@ -561,19 +749,40 @@ export class Stats extends events.EventEmitter {
     if (this.sessions.has(session.id)) {
       throw new Error(`session id ${session.id} already present`)
     }
+    if (this.startedSessionIds.has(session.id)) {
+      this.sessionRestarts++
+    }
+    this.startedSessionIds.add(session.id)
     session.once('stop', id => {
       log.debug(`Session ${id} stopped`)
-      this.sessions.delete(id)
+      this.removeSession(id)
     })
     this.sessions.set(session.id, session)
   }
 
+  /**
+   * Marks the run as failed, emitting a `fail` event.
+   * @param reason The failure reason.
+   */
+  setRunFailed(reason: string): void {
+    log.error(`Run failed: ${reason}`)
+    if (!this.failReason) {
+      this.failReason = reason
+    }
+    this.emit('fail', reason)
+  }
+
   /**
    * Removes the session from list of monitored sessions.
    * @param id the Session id
    */
   removeSession(id: number): void {
     log.debug(`removeSession ${id}`)
+    const session = this.sessions.get(id)
+    if (session) {
+      this.removedSessionsPageErrors += session.pageErrors
+      this.removedSessionsPageWarnings += session.pageWarnings
+    }
     this.sessions.delete(id)
   }
 
@@ -603,46 +812,50 @@ export class Stats extends events.EventEmitter {
     if (this.statsPath) {
       log.debug(`Logging stats into ${this.statsPath}`)
       const headers = this.statsNames.reduce((v: string[], name) => v.concat(formatStatsColumns(name)), [])
-      this.statsWriter = new StatsWriter(this.statsPath, headers)
+      this.statsWriter = new StatsWriter(this.statsPath, this.scenarioEnabled ? ['phase', ...headers] : headers)
     }
 
     if (this.detailedStatsPath) {
       log.debug(`Logging stats into ${this.statsPath}`)
       this.detailedStatsWriter = new StatsWriter(this.detailedStatsPath, [
+        ...(this.scenarioEnabled ? ['phase'] : []),
         'participantName',
         'trackId',
         ...this.statsNames,
       ])
     }
 
-    if (this.prometheusPushgateway) {
+    if (this.prometheusPushgateway || this.serverMetrics) {
       const register = new promClient.Registry()
-      const agent = this.prometheusPushgateway.startsWith('https://')
-        ? new https.Agent({
-            keepAlive: true,
-            keepAliveMsecs: 60000,
-            maxSockets: 5,
-          })
-        : new http.Agent({
-            keepAlive: true,
-            keepAliveMsecs: 60000,
-            maxSockets: 5,
-          })
-      this.gateway = new promClient.Pushgateway(
-        this.prometheusPushgateway,
-        {
-          timeout: 5000,
-          auth: this.prometheusPushgatewayAuth,
-          rejectUnauthorized: false,
-          agent,
-          headers: this.prometheusPushgatewayGzip
-            ? {
-                'Content-Encoding': 'gzip',
-              }
-            : undefined,
-        },
-        register,
-      )
+      this.register = register
+      if (this.prometheusPushgateway) {
+        const agent = this.prometheusPushgateway.startsWith('https://')
+          ? new https.Agent({
+              keepAlive: true,
+              keepAliveMsecs: 60000,
+              maxSockets: 5,
+            })
+          : new http.Agent({
+              keepAlive: true,
+              keepAliveMsecs: 60000,
+              maxSockets: 5,
+            })
+        this.gateway = new promClient.Pushgateway(
+          this.prometheusPushgateway,
+          {
+            timeout: 5000,
+            auth: this.prometheusPushgatewayAuth,
+            rejectUnauthorized: false,
+            agent,
+            headers: this.prometheusPushgatewayGzip
+              ? {
+                  'Content-Encoding': 'gzip',
+                }
+              : undefined,
+          },
+          register,
+        )
+      }
 
       // promClient.collectDefaultMetrics({ prefix: promPrefix, register })
 
@@ -661,54 +874,82 @@ export class Stats extends events.EventEmitter {
           ),
       )
 
+      if (this.scenarioEnabled) {
+        this.phaseMetric = promCreateGauge(
+          register,
+          'phase',
+          '',
+          ['phase', 'datetime', ...Object.keys(this.customMetricsLabels)],
+          () => {
+            this.phaseMetric?.reset()
+            this.phaseMetric?.set(
+              {
+                phase: this.phase,
+                datetime: this.startTimestampString,
+                ...this.customMetricsLabels,
+              },
+              this.phaseMarkers.length,
+            )
+          },
+        )
+      }
+
       // Export rtc stats.
       this.statsNames.forEach(name => {
         this.metrics[name] = {
           length: promCreateGauge(register, name, 'length', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           sum: promCreateGauge(register, name, 'sum', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           mean: promCreateGauge(register, name, 'mean', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           stddev: promCreateGauge(register, name, 'stddev', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           p5: promCreateGauge(register, name, 'p5', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           p95: promCreateGauge(register, name, 'p95', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           min: promCreateGauge(register, name, 'min', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
           max: promCreateGauge(register, name, 'max', [
             'host',
             'codec',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ]),
@@ -719,6 +960,7 @@ export class Stats extends events.EventEmitter {
           this.metrics[name].value = promCreateGauge(register, name, '', [
             'participantName',
             'trackId',
+            'role',
             'datetime',
             ...Object.keys(this.customMetricsLabels),
           ])
@@ -799,9 +1041,13 @@ export class Stats extends events.EventEmitter {
       stats.all.reset()
       Object.values(stats.byHost).forEach(s => s.reset())
       Object.values(stats.byCodec).forEach(s => s.reset())
+      Object.values(stats.byRole).forEach(s => s.reset())
       stats.byParticipantAndTrack = {}
     })
     for (const [sessionId, session] of this.sessions.entries()) {
+      if (!this.browserVersion && session.browserVersion) {
+        this.browserVersion = session.browserVersion
+      }
       this.collectedStatsConfig.url = `${hideAuth(session.url)}?${session.urlQuery}`
       this.collectedStatsConfig.pages += session.pages.size || 0
       const sessionStats = await session.updateStats()
@@ -812,15 +1058,29 @@ export class Stats extends events.EventEmitter {
         //log.log(name, obj)
         try {
           const collectedStats = this.collectedStats[name]
+          // Push role label.
+          const pushRole = (value: number): void => {
+            if (!session.role) return
+            let stats = collectedStats.byRole[session.role]
+            if (!stats) {
+              stats = collectedStats.byRole[session.role] = new FastStats()
+            }
+            stats.push(value)
+          }
           if (typeof obj === 'number' && isFinite(obj)) {
+            // Session values are excluded until the warm-up time of any page has passed.
+            if (!session.isWarmedUp()) continue
             collectedStats.all.push(obj)
+            pushRole(obj)
           } else {
             for (const [key, value] of Object.entries(obj)) {
+              const { pageIndex, trackId, hostName, participantName } = parseRtStatKey(key)
+              if (!session.isWarmedUp(pageIndex)) continue
               // eslint-disable-next-line @typescript-eslint/no-explicit-any
               if (typeof value === 'number' && isFinite(value as any)) {
                 collectedStats.all.push(value)
+                pushRole(value)
                 // Push host label.
-                const { trackId, hostName, participantName } = parseRtStatKey(key)
                 let stats = collectedStats.byHost[hostName]
                 if (!stats) {
                   stats = collectedStats.byHost[hostName] = new FastStats()
@@ -829,10 +1089,14 @@ export class Stats extends events.EventEmitter {
                 // Push participant and track values.
                 if (enabledForSession(sessionId, this.enableDetailedStats) && participantName) {
                   collectedStats.byParticipantAndTrack[`${participantName}:${trackId || ''}`] = value
+                  if (session.role) {
+                    this.participantRoles.set(participantName, session.role)
+                  }
                 }
               } else if (typeof value === 'string') {
                 // Codec stats.
                 collectedStats.all.push(1)
+                pushRole(1)
                 let stats = collectedStats.byCodec[value]
                 if (!stats) {
                   stats = collectedStats.byCodec[value] = new FastStats()
@@ -882,12 +1146,20 @@ export class Stats extends events.EventEmitter {
           }
           collectedStats.byCodec[codec].push(values)
         })
+        Object.entries(stats.byRole || {}).forEach(([role, values]) => {
+          if (!collectedStats.byRole[role]) {
+            collectedStats.byRole[role] = new FastStats()
+          }
+          collectedStats.byRole[role].push(values)
+        })
         Object.entries(stats.byParticipantAndTrack).forEach(([label, value]) => {
           collectedStats.byParticipantAndTrack[label] = value
         })
       })
     }
     this.emit('stats', this.collectedStats)
+    this.updateTimeSeries(now)
+    this.updateRunStats()
     // Push to an external instance.
     if (this.pushStatsInstance) {
       const pushStats: Record<string, CollectedStatsRaw> = {}
@@ -897,6 +1169,7 @@ export class Stats extends events.EventEmitter {
           all: (stats.all as any).data,
           byHost: {},
           byCodec: {},
+          byRole: {},
           byParticipantAndTrack: {},
         }
         Object.entries(stats.byHost).forEach(([host, stat]) => {
@@ -907,6 +1180,10 @@ export class Stats extends events.EventEmitter {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           pushStats[name].byCodec[codec] = (stat as any).data
         })
+        Object.entries(stats.byRole).forEach(([role, stat]) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          pushStats[name].byRole[role] = (stat as any).data
+        })
         Object.entries(stats.byParticipantAndTrack).forEach(([label, value]) => {
           pushStats[name].byParticipantAndTrack[label] = value
         })
@@ -926,6 +1203,8 @@ export class Stats extends events.EventEmitter {
     this.checkAlertRules()
     // Show to console.
     this.consoleShowStats()
+    // Update Prometheus metrics.
+    this.updateMetrics()
 
     await Promise.allSettled([
       this.writeStats(),
@@ -935,11 +1214,126 @@ export class Stats extends events.EventEmitter {
     ])
   }
 
+  /**
+   * Adds the last collected stats values to the time series used by the
+   * HTML report.
+   * @param now The current timestamp.
+   */
+  private updateTimeSeries(now: number): void {
+    if (!this.reportPath) return
+    const x = Math.round((now - this.startTimestamp) / 1000)
+    for (const [name, stats] of Object.entries(this.collectedStats)) {
+      let series = this.timeSeries[name]
+      if (!series) {
+        series = this.timeSeries[name] = {}
+      }
+      const push = (label: string, s: FastStats): void => {
+        if (!s.length) return
+        const { mean, p5, p95 } = formatStats(s) as StatsData
+        if (!series[label]) {
+          series[label] = []
+        }
+        series[label].push({ x, mean, p5, p95 })
+      }
+      push('all', stats.all)
+      Object.entries(stats.byHost).forEach(([host, s]) => push(`host:${host}`, s))
+      Object.entries(stats.byCodec).forEach(([codec, s]) => push(`codec:${codec}`, s))
+    }
+  }
+
+  /**
+   * Adds the last collected stats values to the whole run stats used by the
+   * JSON summary.
+   */
+  private updateRunStats(): void {
+    if (!this.summaryPath) return
+    for (const [name, { all, byHost, byCodec }] of Object.entries(this.collectedStats)) {
+      if (!this.runStats[name]) {
+        this.runStats[name] = { all: new RunStats(), byHost: {}, byCodec: {} }
+      }
+      const runStats = this.runStats[name]
+      runStats.all.add(all)
+      Object.entries(byHost).forEach(([host, s]) => (runStats.byHost[host] ||= new RunStats()).add(s))
+      Object.entries(byCodec).forEach(([codec, s]) => (runStats.byCodec[codec] ||= new RunStats()).add(s))
+    }
+  }
+
+  /**
+   * Writes the HTML report.
+   */
+  async writeReport(): Promise<void> {
+    if (!this.reportPath) {
+      return
+    }
+    try {
+      await writeStatsReport(this.reportPath, {
+        startTimestamp: this.startTimestamp,
+        endTimestamp: Date.now(),
+        version: getPackageVersion(),
+        browserVersion: this.browserVersion,
+        config: this.runConfig,
+        timeSeries: this.timeSeries,
+        alertRules: this.getAlertRulesResults(),
+      })
+    } catch (err) {
+      log.error(`writeReport error: ${(err as Error).stack}`)
+    }
+  }
+
+  /**
+   * Writes the JSON run summary, containing the run configuration, the stats
+   * values aggregated over the whole run (also split by host and codec), the
+   * alert rules report and the page errors and session restarts counters.
+   */
+  async writeSummary(): Promise<void> {
+    if (!this.summaryPath) {
+      return
+    }
+    log.debug(`writeSummary writing in ${this.summaryPath}`)
+    try {
+      const stats: Record<
+        string,
+        { all: StatsData; byHost: Record<string, StatsData>; byCodec: Record<string, StatsData> }
+      > = {}
+      const format = (values: Record<string, RunStats>): Record<string, StatsData> =>
+        Object.fromEntries(Object.entries(values).map(([key, s]) => [key, s.toStatsData()]))
+      for (const [name, { all, byHost, byCodec }] of Object.entries(this.runStats)) {
+        stats[name] = { all: all.toStatsData(), byHost: format(byHost), byCodec: format(byCodec) }
+      }
+      let pageErrors = this.removedSessionsPageErrors
+      let pageWarnings = this.removedSessionsPageWarnings
+      for (const session of this.sessions.values()) {
+        pageErrors += session.pageErrors
+        pageWarnings += session.pageWarnings
+      }
+      const alertRulesReport = this.formatAlertRulesReport('json')
+      const summary = {
+        startTimestamp: this.startTimestamp,
+        startTime: this.startTimestampString,
+        endTimestamp: Date.now(),
+        endTime: new Date().toISOString(),
+        version: getPackageVersion(),
+        browserVersion: this.browserVersion,
+        config: this.runConfig,
+        stats,
+        alertRules: alertRulesReport ? JSON.parse(alertRulesReport) : null,
+        pageErrors,
+        pageWarnings,
+        sessionRestarts: this.sessionRestarts,
+        failReason: this.failReason,
+      }
+      await fs.promises.mkdir(path.dirname(this.summaryPath), { recursive: true })
+      await fs.promises.writeFile(this.summaryPath, JSON.stringify(summary, null, 2))
+    } catch (err) {
+      log.error(`writeSummary error: ${(err as Error).stack}`)
+    }
+  }
+
   async writeStats() {
     if (!this.statsWriter) return
     const values = this.statsNames.reduce(
       (v: string[], name) => v.concat(formatStats(this.collectedStats[name].all, true) as string[]),
-      [],
+      this.scenarioEnabled ? [this.phase] : [],
     )
     await this.statsWriter.push(values)
   }
@@ -959,7 +1353,7 @@ export class Stats extends events.EventEmitter {
     })
     for (const [label, trackStats] of participantTrackStats.entries()) {
       const [participantName, trackId] = label.split(':', 2)
-      const values = [participantName, trackId]
+      const values = this.scenarioEnabled ? [this.phase, participantName, trackId] : [participantName, trackId]
       for (const name of this.statsNames) {
         values.push(trackStats[name] ?? '')
       }
@@ -990,15 +1384,35 @@ export class Stats extends events.EventEmitter {
     const stats = this.collectedStats
     let out =
       sprintfStatsHeader() +
+      (this.phase ? sprintfStatsTitle(`Phase: ${this.phase}`) : '') +
       sprintfStats('System CPU', stats.usedCpu, '.2f', '%', undefined, true) +
       sprintfStats('System GPU', stats.usedGpu, '.2f', '%', undefined, true) +
       sprintfStats('System Memory', stats.usedMemory, '.2f', '%', undefined, true) +
       sprintfStats('CPU/page', stats.cpu, '.2f', '%') +
       sprintfStats('Memory/page', stats.memory, '.2f', 'MB') +
+      sprintfStats('CPU/tab', stats.pageCpu, '.2f', '%') +
+      sprintfStats('Memory/tab', stats.pageMemory, '.2f', 'MB') +
+      sprintfStats('Browser process CPU', stats.browserProcessCpu, '.2f', '%') +
+      sprintfStats('Browser process Memory', stats.browserProcessMemory, '.2f', 'MB') +
+      sprintfStats('GPU process CPU', stats.gpuProcessCpu, '.2f', '%') +
+      sprintfStats('GPU process Memory', stats.gpuProcessMemory, '.2f', 'MB') +
+      sprintfStats('Network process CPU', stats.networkProcessCpu, '.2f', '%') +
+      sprintfStats('Network process Memory', stats.networkProcessMemory, '.2f', 'MB') +
+      sprintfStats('JS heap used', stats.jsHeapUsedSize, '.2f', 'MB') +
+      sprintfStats('JS heap growth', stats.jsHeapGrowth, '.2f', 'MB/h', undefined, true) +
+      sprintfStats('DOM nodes', stats.domNodes, 'd', '') +
+      sprintfStats('JS event listeners', stats.jsEventListeners, 'd', '') +
+      sprintfStats('Documents', stats.documents, 'd', '') +
       sprintfStats('Pages', stats.pages, 'd', '') +
       sprintfStats('Errors', stats.errors, 'd', '') +
       sprintfStats('Warnings', stats.warnings, 'd', '') +
+      sprintfStats('Restarts', stats.restarts, 'd', '') +
+      sprintfStats('Crashes', stats.crashes, 'd', '') +
       sprintfStats('Peer Connections', stats.peerConnections, 'd', '') +
+      sprintfStats('Signaling frames sent', stats.signalingFramesSent, '.2f', 'fps') +
+      sprintfStats('Signaling frames received', stats.signalingFramesReceived, '.2f', 'fps') +
+      sprintfStats('Signaling latency', stats.signalingLatency, '.2f', 'ms', undefined, true) +
+      sprintfStats('Signaling reconnects', stats.signalingReconnects, 'd', '') +
       sprintfStats('audioSubscribeDelay', stats.audioSubscribeDelay, 'd', 'ms', undefined, true) +
       sprintfStats('videoSubscribeDelay', stats.videoSubscribeDelay, 'd', 'ms', undefined, true) +
       // inbound audio
@@ -1060,10 +1474,10 @@ export class Stats extends events.EventEmitter {
   }
 
   /**
-   * sendToPushGateway
+   * Updates the Prometheus metrics values.
    */
-  async sendToPushGateway(): Promise<void> {
-    if (!this.gateway || !this.running) {
+  updateMetrics(): void {
+    if (!this.register || !this.running) {
       return
     }
     const elapsedSeconds = (Date.now() - this.startTimestamp) / 1000
@@ -1074,8 +1488,8 @@ export class Stats extends events.EventEmitter {
         return
       }
 
-      const setStats = (stats: FastStats, host: string, codec: string): void => {
-        const labels = { host, codec, datetime, ...this.customMetricsLabels }
+      const setStats = (stats: FastStats, host: string, codec: string, role = 'all'): void => {
+        const labels = { host, codec, role, datetime, ...this.customMetricsLabels }
         const { length, sum, mean, stddev, p5, p95, min, max } = formatStats(stats) as StatsData
         metric.length.set(labels, length)
         metric.sum.set(labels, sum)
@@ -1094,6 +1508,9 @@ export class Stats extends events.EventEmitter {
       Object.entries(this.collectedStats[name].byCodec).forEach(([codec, stats]) => {
         setStats(stats, 'all', codec)
       })
+      Object.entries(this.collectedStats[name].byRole).forEach(([role, stats]) => {
+        setStats(stats, 'all', 'all', role)
+      })
       if (metric.value) {
         Object.entries(this.collectedStats[name].byParticipantAndTrack).forEach(([label, value]) => {
           const [participantName, trackId] = label.split(':', 2)
@@ -1101,6 +1518,7 @@ export class Stats extends events.EventEmitter {
             {
               participantName,
               trackId,
+              role: this.participantRoles.get(participantName) || 'all',
               datetime,
               ...this.customMetricsLabels,
             },
@@ -1225,7 +1643,15 @@ export class Stats extends events.EventEmitter {
         )
       }
     }
+  }
 
+  /**
+   * sendToPushGateway
+   */
+  async sendToPushGateway(): Promise<void> {
+    if (!this.gateway || !this.running) {
+      return
+    }
     try {
       const { resp, body } = await this.gateway.push({
         jobName: this.prometheusPushgatewayJobName,
@@ -1403,6 +1829,8 @@ export class Stats extends events.EventEmitter {
       reportValue.totalFails += 1
       if (reportValue.lastFailed) {
         reportValue.totalFailsTime += (now - reportValue.lastFailed) / 1000
+      } else {
+        this.emit('alert', key, ruleDesc)
       }
       reportValue.lastFailed = now
     } else {
@@ -1629,6 +2057,124 @@ export class Stats extends events.EventEmitter {
     }
   }
 
+  /**
+   * Returns the alert rules check results. A rule or a tag fails when its
+   * fail amount percentile is greater than 0.
+   */
+  getAlertRulesResults():
+    | {
+        failed: boolean
+        rules: {
+          name: string
+          tags: string[]
+          failed: boolean
+          failAmount: number
+          totalFails: number
+          totalFailsTime: number
+          totalFailsTimePerc: number
+          count: number
+          valueAverage: number
+        }[]
+        tags: Record<string, { failed: boolean; failAmount: number }>
+      }
+    | undefined {
+    if (!this.alertRules) {
+      return
+    }
+    const rules = []
+    for (const [key, report] of this.alertRulesReport.entries()) {
+      for (const [reportDesc, reportValue] of report.entries()) {
+        const { totalFails, totalFailsTime, totalFailsTimePerc, valueStats, failAmountStats, failAmountPercentile } =
+          reportValue
+        rules.push({
+          name: `${key} ${reportDesc}`,
+          tags: this.alertRules[key].tags || [],
+          failed: failAmountPercentile > 0,
+          failAmount: failAmountPercentile,
+          totalFails,
+          totalFailsTime: Math.round(totalFailsTime),
+          totalFailsTimePerc,
+          count: failAmountStats.length,
+          valueAverage: valueStats.amean(),
+        })
+      }
+    }
+    const tags: Record<string, { failed: boolean; failAmount: number }> = {}
+    for (const [tag, stat] of (this.getAlertRulesTags() as Map<string, FastStats>).entries()) {
+      const failAmount = calculateFailAmountPercentile(stat, this.alertRulesFailPercentile)
+      tags[tag] = { failed: failAmount > 0, failAmount }
+    }
+    return {
+      failed: rules.some(r => r.failed) || Object.values(tags).some(t => t.failed),
+      rules,
+      tags,
+    }
+  }
+
+  /**
+   * Formats the alert rules results as JUnit XML report, with a test suite
+   * for each tag and a test case for each rule.
+   */
+  formatAlertRulesJUnit(): string {
+    const results = this.getAlertRulesResults()
+    if (!results) {
+      return ''
+    }
+    const elapsed = (Date.now() - this.startTimestamp) / 1000
+    const suites = new Map<string, typeof results.rules>()
+    for (const rule of results.rules) {
+      for (const tag of rule.tags.length ? rule.tags : ['default']) {
+        if (!suites.has(tag)) {
+          suites.set(tag, [])
+        }
+        suites.get(tag)?.push(rule)
+      }
+    }
+    const tests = [...suites.values()].reduce((sum, rules) => sum + rules.length, 0)
+    const failures = [...suites.values()].reduce((sum, rules) => sum + rules.filter(r => r.failed).length, 0)
+    let out = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="webrtcperf" tests="${tests}" failures="${failures}" time="${elapsed.toFixed(3)}" \
+timestamp="${this.startTimestampString}">\n`
+    for (const [tag, rules] of suites.entries()) {
+      const tagFailAmount = results.tags[tag]?.failAmount ?? 0
+      out += `  <testsuite name="${escapeHtml(tag)}" tests="${rules.length}" \
+failures="${rules.filter(r => r.failed).length}" time="${elapsed.toFixed(3)}">
+    <properties>
+      <property name="failAmount" value="${tagFailAmount}"/>
+    </properties>\n`
+      for (const rule of rules) {
+        out += `    <testcase name="${escapeHtml(rule.name)}" classname="${escapeHtml(tag)}" time="${elapsed.toFixed(3)}">\n`
+        if (rule.failed) {
+          out += `      <failure message="${escapeHtml(`fail amount ${rule.failAmount}%`)}" type="AlertRuleFailure">\
+${escapeHtml(`fails: ${rule.totalFails}/${rule.count}, fail time: ${rule.totalFailsTime}s (${rule.totalFailsTimePerc}%), \
+value average: ${toPrecision(rule.valueAverage, 3)}`)}</failure>\n`
+        }
+        out += `    </testcase>\n`
+      }
+      out += `  </testsuite>\n`
+    }
+    out += `</testsuites>\n`
+    return out
+  }
+
+  /**
+   * Writes the alert rules JUnit XML report.
+   */
+  async writeAlertRulesJUnit(): Promise<void> {
+    if (!this.alertRules || !this.alertRulesJunitFilename) {
+      return
+    }
+    log.debug(`writeAlertRulesJUnit writing in ${this.alertRulesJunitFilename}`)
+    try {
+      await fs.promises.mkdir(path.dirname(this.alertRulesJunitFilename), {
+        recursive: true,
+      })
+      await fs.promises.writeFile(this.alertRulesJunitFilename, this.formatAlertRulesJUnit())
+    } catch (err) {
+      log.error(`writeAlertRulesJUnit error: ${(err as Error).stack}`)
+    }
+  }
+
   /**
    * Stop the stats collector and the added Sessions.
    */
@@ -1643,6 +2189,10 @@ export class Stats extends events.EventEmitter {
       this.scheduler = undefined
     }
 
+    await this.writeAlertRulesJUnit()
+    await this.writeReport()
+    await this.writeSummary()
+
     for (const session of this.sessions.values()) {
       try {
         session.removeAllListeners()
@@ -1659,6 +2209,10 @@ export class Stats extends events.EventEmitter {
     if (this.gateway) {
       await this.deletePushgatewayStats()
       this.gateway = null
+    }
+    if (this.register) {
+      this.register.clear()
+      this.register = null
       this.metrics = {}
     }
 
@@ -0,0 +1,294 @@
+import fs from 'fs'
+import json5 from 'json5'
+import path from 'path'
+import puppeteer, { CookieParam, Page, Protocol } from 'puppeteer-core'
+
+import { checkChromeExecutable, logger } from './utils'
+
+const log = logger('webrtcperf:storage')
+
+/** An IndexedDB object store index. */
+interface IndexedDBIndex {
+  name: string
+  keyPath: string | string[]
+  unique: boolean
+  multiEntry: boolean
+}
+
+/** An IndexedDB object store with its records. */
+interface IndexedDBStore {
+  name: string
+  keyPath: string | string[] | null
+  autoIncrement: boolean
+  indexes: IndexedDBIndex[]
+  records: { key: unknown; value: unknown }[]
+}
+
+/** An IndexedDB database. */
+interface IndexedDBDatabase {
+  name: string
+  version: number
+  stores: IndexedDBStore[]
+}
+
+/** The storage of an origin. */
+export interface OriginStorageState {
+  /** The origin (e.g. `https://example.com`). */
+  origin: string
+  /** The `localStorage` items. */
+  localStorage: Record<string, string>
+  /** The IndexedDB databases. */
+  indexedDB: IndexedDBDatabase[]
+}
+
+/** The browser storage state of an authenticated identity. */
+export interface StorageState {
+  /** The browser cookies. */
+  cookies: CookieParam[]
+  /** The storage of each origin. */
+  origins: OriginStorageState[]
+}
+
+/**
+ * A login identity. The `name` is used as the state file name, the other
+ * properties (e.g. `username`, `password`) are passed to the login script.
+ */
+export interface StorageStateIdentity {
+  name: string
+  [key: string]: unknown
+}
+
+/** The login script signature: it should complete the login on the page. */
+export type StorageStateLoginFn = (page: Page, identity: StorageStateIdentity) => Promise<void>
+
+/**
+ * Captures the page browser storage state: all the browser cookies and the
+ * `localStorage` and IndexedDB content of each page frame origin. The
+ * IndexedDB values are serialized by the page evaluation, so only the
+ * JSON-compatible values are preserved.
+ * @param page The page.
+ */
+export async function captureStorageState(page: Page): Promise<StorageState> {
+  const client = await page.createCDPSession()
+  const { cookies } = (await client.send('Network.getAllCookies')) as { cookies: Protocol.Network.Cookie[] }
+  await client.detach()
+
+  const origins = new Map<string, OriginStorageState>()
+  for (const frame of page.frames()) {
+    try {
+      const state = await frame.evaluate(async () => {
+        const request = <T>(req: IDBRequest<T>): Promise<T> =>
+          new Promise((resolve, reject) => {
+            req.onsuccess = (): void => resolve(req.result)
+            req.onerror = (): void => reject(req.error)
+          })
+        const indexedDB: IndexedDBDatabase[] = []
+        for (const { name, version } of await window.indexedDB.databases()) {
+          if (!name) continue
+          const db = await request(window.indexedDB.open(name))
+          const stores: IndexedDBStore[] = []
+          for (const storeName of db.objectStoreNames) {
+            const store = db.transaction(storeName, 'readonly').objectStore(storeName)
+            const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())])
+            stores.push({
+              name: storeName,
+              keyPath: store.keyPath,
+              autoIncrement: store.autoIncrement,
+              indexes: [...store.indexNames].map(indexName => {
+                const { keyPath, unique, multiEntry } = store.index(indexName)
+                return { name: indexName, keyPath, unique, multiEntry }
+              }),
+              records: keys.map((key, i) => ({ key, value: values[i] })),
+            })
+          }
+          db.close()
+          indexedDB.push({ name, version: version || db.version, stores })
+        }
+        return { origin: location.origin, localStorage: { ...localStorage }, indexedDB }
+      })
+      if (state.origin && state.origin !== 'null' && !origins.has(state.origin)) {
+        origins.set(state.origin, state)
+      }
+    } catch (err) {
+      log.warn(`captureStorageState frame ${frame.url()} error: ${(err as Error).message}`)
+    }
+  }
+
+  return {
+    cookies: cookies.map(({ name, value, domain, path, expires, httpOnly, secure, sameSite }) => ({
+      name,
+      value,
+      domain,
+      path,
+      expires,
+      httpOnly,
+      secure,
+      sameSite,
+    })),
+    origins: [...origins.values()],
+  }
+}
+
+/**
+ * Applies a storage state to a page before it is loaded: it sets the cookies
+ * and it restores the `localStorage` items and the IndexedDB databases not
+ * already present when a document of a saved origin is created.
+ * @param page The page.
+ * @param state The storage state.
+ */
+export async function applyStorageState(page: Page, state: StorageState): Promise<void> {
+  if (state.cookies?.length) {
+    await page.setCookie(...state.cookies)
+  }
+  if (!state.origins?.length) {
+    return
+  }
+  await page.evaluateOnNewDocument((origins: OriginStorageState[]) => {
+    const state = origins.find(({ origin }) => origin === location.origin)
+    if (!state) return
+    for (const [key, value] of Object.entries(state.localStorage || {})) {
+      if (localStorage.getItem(key) === null) {
+        localStorage.setItem(key, value)
+      }
+    }
+    for (const { name, version, stores } of state.indexedDB || []) {
+      const request = indexedDB.open(name, version)
+      request.onupgradeneeded = (event): void => {
+        // Populate only the newly created databases.
+        if (event.oldVersion !== 0) return
+        for (const { name, keyPath, autoIncrement, indexes, records } of stores) {
+          const store = request.result.createObjectStore(name, { keyPath, autoIncrement })
+          for (const { name, keyPath, unique, multiEntry } of indexes) {
+            store.createIndex(name, keyPath, { unique, multiEntry })
+          }
+          for (const { key, value } of records) {
+            if (keyPath !== null) {
+              store.put(value)
+            } else {
+              store.put(value, key as IDBValidKey)
+            }
+          }
+        }
+      }
+      request.onsuccess = (): void => request.result.close()
+    }
+  }, state.origins)
+}
+
+/**
+ * Loads a storage state file.
+ * @param filePath The state file path.
+ */
+export async function loadStorageState(filePath: string): Promise<StorageState> {
+  return JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+}
+
+/**
+ * Returns the identities pool: the list of the state files contained in the
+ * provided directory (sorted by name), or the provided file.
+ * @param statePath The state files directory or a single state file path.
+ */
+export function getStorageStatePool(statePath: string): string[] {
+  if (!statePath || !fs.existsSync(statePath)) {
+    return []
+  }
+  if (!fs.statSync(statePath).isDirectory()) {
+    return [path.resolve(statePath)]
+  }
+  return fs
+    .readdirSync(statePath)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => path.resolve(statePath, name))
+}
+
+/**
+ * Parses the `storageStateIdentities` config option.
+ * @param identities A JSON5 string with the list of identities or the file
+ * path containing it.
+ */
+export function parseStorageStateIdentities(identities: string): StorageStateIdentity[] {
+  identities = identities?.trim()
+  if (!identities) {
+    return []
+  }
+  const values = json5.parse(identities.startsWith('[') ? identities : fs.readFileSync(identities, 'utf8'))
+  if (!Array.isArray(values)) {
+    throw new Error(`Invalid storage state identities: it should be a list`)
+  }
+  values.forEach((identity: StorageStateIdentity, i) => {
+    if (!identity?.name || !/^[\w.@-]+$/.test(identity.name)) {
+      throw new Error(`Invalid storage state identity ${i} name: ${identity?.name}`)
+    }
+  })
+  return values
+}
+
+/**
+ * Runs the login script for each identity in a new browser page and saves
+ * the resulting storage state into the `<statePath>/<identity name>.json`
+ * file. The identities with an existing state file are skipped.
+ * @param options.loginScript The login script path, exporting by default a {@link StorageStateLoginFn}.
+ * @param options.loginUrl The url opened before running the login script.
+ * @param options.identities The identities (see {@link parseStorageStateIdentities}).
+ * @param options.statePath The state files directory.
+ * @param options.chromiumPath The browser executable path.
+ */
+export async function saveStorageStates({
+  loginScript,
+  loginUrl,
+  identities,
+  statePath,
+  chromiumPath,
+}: {
+  loginScript: string
+  loginUrl: string
+  identities: string
+  statePath: string
+  chromiumPath?: string
+}): Promise<void> {
+  if (!statePath) {
+    throw new Error(`storageStatePath not set`)
+  }
+  const loginScriptPath = path.resolve(process.cwd(), loginScript)
+  if (!fs.existsSync(loginScriptPath)) {
+    throw new Error(`Login script not found: "${loginScriptPath}"`)
+  }
+  const loginFn: StorageStateLoginFn = (await import(/* webpackIgnore: true */ loginScriptPath)).default
+  const pending = parseStorageStateIdentities(identities).filter(
+    ({ name }) => !fs.existsSync(path.resolve(statePath, `${name}.json`)),
+  )
+  if (!pending.length) {
+    return
+  }
+  await fs.promises.mkdir(statePath, { recursive: true })
+
+  let executablePath = chromiumPath
+  if (!executablePath || !fs.existsSync(executablePath)) {
+    executablePath = await checkChromeExecutable()
+  }
+  const browser = await puppeteer.launch({ browser: 'chrome', headless: true, executablePath, handleSIGINT: false })
+  try {
+    for (const identity of pending) {
+      log.info(`Login identity "${identity.name}"`)
+      const context = await browser.createBrowserContext()
+      try {
+        const page = await context.newPage()
+        if (loginUrl) {
+          await page.goto(loginUrl, { waitUntil: 'domcontentloaded', timeout: 60 * 1000 })
+        }
+        await loginFn(page, identity)
+        const state = await captureStorageState(page)
+        const filePath = path.resolve(statePath, `${identity.name}.json`)
+        await fs.promises.writeFile(filePath, JSON.stringify(state, null, 2))
+        log.info(
+          `Storage state saved in ${filePath} (${state.cookies.length} cookies, ${state.origins.length} origins)`,
+        )
+      } finally {
+        await context.close()
+      }
+    }
+  } finally {
+    await browser.close()
+  }
+}
@@ -20,7 +20,7 @@ import os, { networkInterfaces } from 'os'
 import path, { dirname } from 'path'
 import pidtree from 'pidtree'
 import pidusage from 'pidusage'
-import puppeteer, { Page } from 'puppeteer-core'
+import puppeteer, { Browser as PuppeteerBrowser, CDPSession, Page } from 'puppeteer-core'
 
 import { Session } from './session'
 
@@ -100,6 +100,74 @@ export function resolvePackagePath(relativePath: string): string {
   throw new Error(`resolvePackagePath: ${relativePath} not found`)
 }
 
+/**
+ * Escapes the HTML and XML special characters.
+ * @param s The input value.
+ */
+export function escapeHtml(s: string | number): string {
+  return String(s).replace(
+    /[<>&'"]/g,
+    c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&#39;', '"': '&quot;' })[c] as string,
+  )
+}
+
+/**
+ * Escapes a CSV value, quoting it when it contains commas, quotes or newlines.
+ * @param s The input value.
+ */
+export function escapeCsv(s: string | number): string {
+  const value = String(s)
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Parses a CSV content, supporting the quoted values.
+ * @param data The CSV content.
+ * @return The list of rows values, skipping the empty lines.
+ */
+export function parseCsv(data: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let quoted = false
+  for (let i = 0; i < data.length; i++) {
+    const c = data[i]
+    if (quoted) {
+      if (c === '"' && data[i + 1] === '"') {
+        value += c
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        value += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(value)
+      value = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && data[i + 1] === '\n') i++
+      row.push(value)
+      if (row.length > 1 || row[0].trim()) rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += c
+    }
+  }
+  row.push(value)
+  if (row.length > 1 || row[0].trim()) rows.push(row)
+  return rows
+}
+
+/**
+ * Returns the package version.
+ */
+export function getPackageVersion(): string {
+  return JSON.parse(fs.readFileSync(resolvePackagePath('package.json')).toString()).version
+}
+
 /**
  * Calculates the sha256 sum.
  * @param data The string input
@@ -111,7 +179,7 @@ export function sha256(data: string): string {
 const ProcessStatsCache = new NodeCache({ stdTTL: 5, checkperiod: 10 })
 const ProcessChildrenCache = new NodeCache({ stdTTL: 15, checkperiod: 15 })
 
-interface ProcessStat {
+export interface ProcessStat {
   cpu: number
   memory: number
 }
@@ -165,6 +233,122 @@ export async function getProcessStats(pid = 0, children = false): Promise<Proces
   return stat
 }
 
+/** The browser process types. */
+export type BrowserProcessType = 'browser' | 'renderer' | 'gpu' | 'network' | 'utility' | 'other'
+
+/**
+ * Returns the browser process and its children processes types, reading the
+ * processes command line arguments (Linux only, the other platforms
+ * children processes are reported as `other`).
+ * @param pid The browser process pid.
+ */
+export async function getBrowserProcesses(pid: number): Promise<Map<number, BrowserProcessType>> {
+  const processes = new Map<number, BrowserProcessType>([[pid, 'browser']])
+  const childrenPids = await pidtree(pid)
+  await Promise.all(
+    childrenPids.map(async p => {
+      let type: BrowserProcessType = 'other'
+      try {
+        const args = (await fs.promises.readFile(`/proc/${p}/cmdline`, 'utf8')).split('\0')
+        switch (args.find(arg => arg.startsWith('--type='))?.slice('--type='.length)) {
+          case 'renderer':
+            type = 'renderer'
+            break
+          case 'gpu-process':
+            type = 'gpu'
+            break
+          case 'utility':
+            type = args.includes('--utility-sub-type=network.mojom.NetworkService') ? 'network' : 'utility'
+            break
+        }
+      } catch {
+        // The process is exited or the platform is not supported.
+      }
+      processes.set(p, type)
+    }),
+  )
+  return processes
+}
+
+/**
+ * Returns the pid of the renderer process running each page main frame. The
+ * page `ProcessTime` performance metric, sampled before and after the
+ * browser `SystemInfo.getProcessInfo` command, is matched with the
+ * renderer processes cumulative CPU time.
+ * @param browser The browser.
+ * @param pages The browser pages.
+ */
+export async function getPagesProcessIds(browser: PuppeteerBrowser, pages: Page[]): Promise<(number | undefined)[]> {
+  const clients = await Promise.all(
+    pages.map(async page => {
+      try {
+        const client = await page.createCDPSession()
+        await client.send('Performance.enable')
+        return client
+      } catch {
+        // The page is closed or crashed.
+        return undefined
+      }
+    }),
+  )
+  const getProcessTimes = (): Promise<(number | undefined)[]> =>
+    Promise.all(
+      clients.map(async client => {
+        try {
+          const metrics = (await client?.send('Performance.getMetrics'))?.metrics
+          return metrics?.find(({ name }) => name === 'ProcessTime')?.value
+        } catch {
+          return undefined
+        }
+      }),
+    )
+  let browserClient: CDPSession | undefined
+  try {
+    browserClient = await browser.target().createCDPSession()
+    const before = await getProcessTimes()
+    const { processInfo } = await browserClient.send('SystemInfo.getProcessInfo')
+    const after = await getProcessTimes()
+    const renderers = processInfo.filter(({ type }) => type === 'renderer')
+    return pages.map((_, i) => {
+      const start = before[i]
+      const end = after[i]
+      if (start === undefined || end === undefined) return
+      let pid: number | undefined
+      let distance = Infinity
+      for (const { id, cpuTime } of renderers) {
+        // Allow a small tolerance for the metrics sampling precision.
+        if (cpuTime < start - 0.01 || cpuTime > end + 0.01) continue
+        const d = Math.abs(cpuTime - (start + end) / 2)
+        if (d < distance) {
+          pid = id
+          distance = d
+        }
+      }
+      return pid
+    })
+  } finally {
+    await Promise.all([browserClient, ...clients].map(client => client?.detach().catch(() => undefined)))
+  }
+}
+
+/**
+ * Returns the stats of each process.
+ * @param pids The processes pids.
+ */
+export async function getProcessesStats(pids: number[]): Promise<Map<number, ProcessStat>> {
+  const stats = new Map<number, ProcessStat>()
+  if (!pids.length) {
+    return stats
+  }
+  const pidStats = await pidusage(pids)
+  for (const p of pids) {
+    if (pidStats[p]) {
+      stats.set(p, { cpu: pidStats[p].cpu, memory: pidStats[p].memory / 1e6 })
+    }
+  }
+  return stats
+}
+
 // Socket stats.
 interface SocketStat {
   recvBytes: number
@@ -651,6 +835,26 @@ export function clampMinMax(value: number, min: number, max: number): number {
   return Math.max(Math.min(value, max), min)
 }
 
+/**
+ * Calculates the least squares linear regression slope.
+ * @param points The `[x, y]` points.
+ * @return The slope or 0 if less than 2 points are provided.
+ */
+export function linearRegressionSlope(points: [number, number][]): number {
+  if (points.length < 2) {
+    return 0
+  }
+  const xMean = points.reduce((sum, [x]) => sum + x, 0) / points.length
+  const yMean = points.reduce((sum, [, y]) => sum + y, 0) / points.length
+  let num = 0
+  let den = 0
+  for (const [x, y] of points) {
+    num += (x - xMean) * (y - yMean)
+    den += (x - xMean) ** 2
+  }
+  return den ? num / den : 0
+}
+
 /** Runs the shell command asynchronously. */
 export async function runShellCommand(
   cmd: string,